@@ -0,0 +1,95 @@
+/**
+ * Read benchmark - get() cost against manifest size and metrics history
+ * Times cache hits in caches holding 100 and 5000 entries, and again with 30
+ * days of hourly metrics already saved. Reads only append to the access
+ * journal and metrics saves only append to the metrics journal, so the
+ * average should grow with neither.
+ *
+ * Run with: npm run bench
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PluginCache } from "../cache";
+import { emptyCounters } from "../metrics";
+import { NamespaceMetrics } from "../types";
+
+const READS = 2000;
+/** Key prefixes per hour in seeded metrics history */
+const HISTORY_PREFIXES = 50;
+
+interface Scenario {
+  entryCount: number;
+  /** Hours of metrics history saved before the reads */
+  historyHours: number;
+}
+
+const SCENARIOS: Scenario[] = [
+  { entryCount: 100, historyHours: 0 },
+  { entryCount: 5000, historyHours: 0 },
+  { entryCount: 5000, historyHours: 30 * 24 },
+];
+
+/**
+ * Write a metrics file holding hourly buckets for the past `hours` hours;
+ * returns its size in bytes
+ */
+function seedMetrics(cacheDir: string, hours: number): number {
+  const counters = { ...emptyCounters(), hits: 90, misses: 10, fetches: 10, fetchMs: 1200 };
+  const byPrefix: Record<string, typeof counters> = {};
+  for (let i = 0; i < HISTORY_PREFIXES; i++) byPrefix[`prefix${i}`] = counters;
+  const bucket: Record<string, NamespaceMetrics> = { bench: { ...counters, byPrefix } };
+
+  const history: Record<string, typeof bucket> = {};
+  for (let i = 0; i < hours; i++) {
+    history[new Date(Date.now() - i * 3_600_000).toISOString().slice(0, 13)] = bucket;
+  }
+  const content = JSON.stringify({ version: 1, hours: history });
+  fs.writeFileSync(path.join(cacheDir, "metrics.json"), content);
+  return Buffer.byteLength(content, "utf-8");
+}
+
+async function measure({ entryCount, historyHours }: Scenario): Promise<number> {
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "plugin-cache-bench-"));
+  try {
+    const cache = new PluginCache({ namespace: "bench", cacheDir });
+    const keys = Array.from({ length: entryCount }, (_, i) => `item:${i}`);
+    await cache.setMany(keys.map((key, i) => ({ key, data: { id: i, name: `Item ${i}` } })));
+    if (historyHours > 0) {
+      const size = seedMetrics(cacheDir, historyHours);
+      console.log(`(seeded ${historyHours}h of metrics: ${(size / 1024 / 1024).toFixed(1)} MB)`);
+    }
+
+    // Warm up file system caches and the JIT
+    for (let i = 0; i < 100; i++) cache.get(keys[i % entryCount]);
+
+    // Enough reads for 20 metrics saves
+    const startedAt = performance.now();
+    for (let i = 0; i < READS; i++) {
+      const result = cache.get(keys[(i * 7919) % entryCount]);
+      if (!result.hit) throw new Error(`Unexpected miss for ${keys[(i * 7919) % entryCount]}`);
+    }
+    return (performance.now() - startedAt) / READS;
+  } finally {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  }
+}
+
+async function main(): Promise<void> {
+  const averages: number[] = [];
+  for (const scenario of SCENARIOS) {
+    const average = await measure(scenario);
+    averages.push(average);
+    const history = scenario.historyHours > 0 ? `${scenario.historyHours}h history` : "no history";
+    const label = `${String(scenario.entryCount).padStart(5)} entries, ${history}`;
+    console.log(`${label.padEnd(30)} ${average.toFixed(3)}ms per get()`);
+  }
+  console.log(`5000 vs 100 entries: ${(averages[1] / averages[0]).toFixed(2)}x`);
+  console.log(`720h vs no metrics history: ${(averages[2] / averages[1]).toFixed(2)}x`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
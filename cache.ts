@@ -1,113 +1,225 @@
 /**
  * PluginCache - Core cache implementation
- * File-based persistent cache for Claude Code plugins
+ * Persistent cache for Claude Code plugins (JSON files by default, see CacheStore)
  */
 
-import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import {
+  BatchEntry,
+  BatchFetcher,
   CacheConfig,
   CacheEntry,
   CacheManifest,
   CacheResult,
   CacheStats,
+  CacheStore,
   CacheValidator,
+  CachedError,
+  CompressionCodec,
   GetOptions,
   GetOrFetchOptions,
-  ManifestEntry,
   SetOptions,
 } from "./types";
-import { cleanupIfNeeded } from "./cleanup";
+import { cleanupIfNeeded, invalidateByTags, invalidateEntries } from "./cleanup";
+import { FileStore } from "./file-store";
+import {
+  DEFAULT_COMPRESSION_THRESHOLD,
+  EntryEncryption,
+  decodeEntry,
+  encodeEntry,
+  parseEntry,
+} from "./codec";
+import { EncryptionKey, EncryptionKeyError, entryAAD, loadEncryptionKey } from "./encryption";
+import {
+  ManifestVersionError,
+  readManifest,
+  updateManifest,
+} from "./manifest";
+import { migrateCache } from "./migrations";
+import { MemoryLRU } from "./memory";
+import { MetricsRecorder, readMetrics } from "./metrics";
+import { NotModified, RevalidationResult } from "./validation";
+import { CacheEventListener, CacheEventType, emitCacheEvent, onCacheEvent } from "./events";
+import { compactJournalIfNeeded, formatAccess, withPendingAccesses } from "./journal";
 
 const DEFAULT_CACHE_DIR = path.join(os.homedir(), ".cache", "plugin-cache");
-const DEFAULT_MAX_SIZE = 500 * 1024 * 1024; // 500MB
 const DEFAULT_MAX_ENTRY_SIZE = 10 * 1024 * 1024; // 10MB
 const DEFAULT_TTL = 300_000; // 5 minutes
 const DEFAULT_STALE_WHILE_REVALIDATE = 86_400_000; // 24 hours
-const MANIFEST_VERSION = 1;
+/** Journaled reads between checks of whether the journal needs compacting */
+const COMPACT_CHECK_INTERVAL = 100;
+/** In-flight key prefix for background batch refreshes (cannot clash with a real key's refresh) */
+const BATCH_FLIGHT_PREFIX = "\0batch:";
+/** In-flight key prefix for cachedHttpFetch() requests (kept apart from getOrFetch's fetches) */
+const HTTP_FLIGHT_PREFIX = "\0http:";
+
+/** Manifest update applied under the lock; the *Many methods apply theirs together */
+type ManifestChange = (manifest: CacheManifest) => void;
+
+/** Fetcher as called internally: gets the entry being refreshed, if any */
+type EntryFetcher<T> = (
+  current: CacheEntry<T> | undefined,
+  signal: AbortSignal
+) => Promise<RevalidationResult<T>>;
+
+/** Lookup options used internally */
+interface LookupOptions<T> extends GetOptions<T> {
+  /** Keep expired entries that have validators, so they can still be revalidated */
+  keepValidated?: boolean;
+}
+
+/**
+ * An entry's validators (null when it has none)
+ */
+function entryValidator(entry: CacheValidator): CacheValidator | null {
+  if (!entry.etag && !entry.lastModified) return null;
+  return {
+    ...(entry.etag && { etag: entry.etag }),
+    ...(entry.lastModified && { lastModified: entry.lastModified }),
+  };
+}
+
+/** Thrown when a fetcher takes longer than the timeout option */
+export class FetchTimeoutError extends Error {
+  constructor(public readonly timeout: number) {
+    super(`Fetch timed out after ${timeout}ms`);
+    this.name = "FetchTimeoutError";
+  }
+}
+
+/** Thrown by getOrFetch while a failure is remembered by negative caching */
+export class CachedFetchError extends Error {
+  constructor(
+    public readonly original: CachedError,
+    /** When the remembered failure expires (ISO timestamp) */
+    public readonly expiresAt: string
+  ) {
+    super(original.message);
+    this.name = "CachedFetchError";
+  }
+}
 
 export class PluginCache {
   private namespace: string;
-  private cacheDir: string;
-  private namespaceDir: string;
-  private manifestPath: string;
+  private store: CacheStore;
   private defaultTTL: number;
   private defaultSWR: number;
+  private defaultStaleIfError: number;
   private maxEntrySize: number;
+  private schemaVersion?: string;
+  private ttlJitter: number;
+  private earlyRefreshBeta: number;
+  private random: () => number;
+  private quota?: number;
+  private evictionPolicy?: string;
+  private compression?: CompressionCodec;
+  private compressionThreshold: number;
+  private encryptionKey: EncryptionKey | null = null;
   private disabled: boolean;
+  // In-flight fetches by key, shared by concurrent getOrFetch calls
+  private inFlight = new Map<string, Promise<unknown>>();
+  // Optional in-memory L1 tier in front of the file store
+  private memory: MemoryLRU<CacheEntry> | null;
+  private l1Hits = 0;
+  private l2Hits = 0;
+  private metrics: MetricsRecorder;
+  // Reads not yet appended to the access journal, and reads journaled since the last size check
+  private pendingAccesses: string[] = [];
+  private journaled = 0;
 
   constructor(config: CacheConfig) {
     this.namespace = config.namespace;
-    this.cacheDir = config.cacheDir || DEFAULT_CACHE_DIR;
-    this.namespaceDir = path.join(this.cacheDir, this.namespace);
-    this.manifestPath = path.join(this.cacheDir, "manifest.json");
+    this.store = config.store ?? new FileStore(config.cacheDir || DEFAULT_CACHE_DIR);
     this.defaultTTL = config.defaultTTL ?? DEFAULT_TTL;
     this.defaultSWR = config.defaultStaleWhileRevalidate ?? DEFAULT_STALE_WHILE_REVALIDATE;
+    this.defaultStaleIfError = config.defaultStaleIfError ?? 0;
     this.maxEntrySize = config.maxEntrySize ?? DEFAULT_MAX_ENTRY_SIZE;
+    this.schemaVersion = config.schemaVersion;
+    this.ttlJitter = Math.min(Math.max(config.ttlJitter ?? 0, 0), 1);
+    this.earlyRefreshBeta = Math.max(config.earlyRefreshBeta ?? 0, 0);
+    this.random = config.random ?? Math.random;
+    this.quota = config.maxSize;
+    this.evictionPolicy = config.evictionPolicy;
+    this.compression = config.compression;
+    this.compressionThreshold = config.compressionThreshold ?? DEFAULT_COMPRESSION_THRESHOLD;
     this.disabled = config.disabled ?? false;
+    this.metrics = new MetricsRecorder(this.store, this.namespace);
+    this.memory =
+      config.memoryMaxEntries || config.memoryMaxBytes
+        ? new MemoryLRU(
+            config.memoryMaxEntries ?? Infinity,
+            config.memoryMaxBytes ?? Infinity
+          )
+        : null;
+
+    if (config.encryption) {
+      try {
+        this.encryptionKey = loadEncryptionKey(config.encryption);
+      } catch (error) {
+        if (!(error instanceof EncryptionKeyError)) throw error;
+        // Never fall back to storing plaintext
+        console.warn(`[cache] ${error.message}; caching disabled for "${this.namespace}"`);
+        this.disabled = true;
+      }
+    }
 
-    // Ensure directories exist
+    // Ensure the stored layout is current
+    if (!this.disabled) {
+      this.migrate();
+    }
     if (!this.disabled) {
-      this.ensureDirectories();
+      this.saveQuota();
+      this.saveEvictionPolicy();
     }
   }
 
-  private ensureDirectories(): void {
-    if (!fs.existsSync(this.cacheDir)) {
-      fs.mkdirSync(this.cacheDir, { recursive: true });
-    }
-    if (!fs.existsSync(this.namespaceDir)) {
-      fs.mkdirSync(this.namespaceDir, { recursive: true });
-    }
+  /**
+   * Record this namespace's quota in the manifest so cleanup from any process honors it
+   */
+  private saveQuota(): void {
+    if (this.quota === undefined) return;
+    if (this.getManifest().quotas?.[this.namespace] === this.quota) return;
+
+    updateManifest(this.store, (manifest) => {
+      manifest.quotas = { ...manifest.quotas, [this.namespace]: this.quota! };
+    });
   }
 
-  private getManifest(): CacheManifest {
-    if (!fs.existsSync(this.manifestPath)) {
-      return {
-        version: MANIFEST_VERSION,
-        totalSize: 0,
-        maxSize: DEFAULT_MAX_SIZE,
-        entries: {},
-      };
-    }
-    try {
-      const content = fs.readFileSync(this.manifestPath, "utf-8");
-      return JSON.parse(content);
-    } catch {
-      return {
-        version: MANIFEST_VERSION,
-        totalSize: 0,
-        maxSize: DEFAULT_MAX_SIZE,
-        entries: {},
-      };
-    }
+  /**
+   * Record the configured eviction policy in the manifest (applies to the whole cache dir)
+   */
+  private saveEvictionPolicy(): void {
+    if (this.evictionPolicy === undefined) return;
+    if (this.getManifest().evictionPolicy === this.evictionPolicy) return;
+
+    updateManifest(this.store, (manifest) => {
+      manifest.evictionPolicy = this.evictionPolicy;
+    });
   }
 
-  private saveManifest(manifest: CacheManifest): void {
-    // Atomic write: write to temp file, then rename
-    // This prevents manifest corruption if process crashes mid-write
-    const tempPath = `${this.manifestPath}.tmp.${process.pid}`;
+  private migrate(): void {
     try {
-      fs.writeFileSync(tempPath, JSON.stringify(manifest, null, 2));
-      fs.renameSync(tempPath, this.manifestPath);
+      migrateCache(this.store);
     } catch (error) {
-      // Clean up temp file on error
-      try {
-        if (fs.existsSync(tempPath)) {
-          fs.unlinkSync(tempPath);
-        }
-      } catch {
-        // Ignore cleanup errors
-      }
-      throw error;
+      if (!(error instanceof ManifestVersionError)) throw error;
+      // Never downgrade a manifest written by a newer library version
+      console.warn(`[cache] ${error.message}; caching disabled for "${this.namespace}"`);
+      this.disabled = true;
     }
   }
 
+  private getEncryption(key: string): EntryEncryption | undefined {
+    if (!this.encryptionKey) return undefined;
+    return { key: this.encryptionKey, aad: entryAAD(this.namespace, key) };
+  }
+
+  private getManifest(): CacheManifest {
+    return readManifest(this.store);
+  }
+
   private getFilePath(key: string): string {
-    // Sanitize key for filesystem
-    const safeKey = key.replace(/[^a-zA-Z0-9_-]/g, "_");
-    return path.join(this.namespaceDir, `${safeKey}.json`);
+    return this.store.locate(this.namespace, key);
   }
 
   /**
@@ -122,7 +234,7 @@ export class PluginCache {
    */
   enable(): void {
     this.disabled = false;
-    this.ensureDirectories();
+    this.migrate();
   }
 
   /**
@@ -132,60 +244,261 @@ export class PluginCache {
     return this.disabled;
   }
 
+  /**
+   * Subscribe to events of a type ("*" for all) for this namespace, including
+   * evictions by cleanup; returns an unsubscribe function
+   */
+  on<K extends CacheEventType>(type: K | "*", listener: CacheEventListener<K>): () => void {
+    return onCacheEvent<K>(type, (event) => {
+      if (event.namespace === this.namespace) listener(event);
+    });
+  }
+
+  /**
+   * Report an exception that is handled without failing the operation
+   */
+  private emitError(operation: string, error: unknown, key?: string): void {
+    emitCacheEvent({ type: "error", namespace: this.namespace, key, operation, error });
+  }
+
   /**
    * Get an entry from the cache
    */
-  get<T>(key: string, options?: GetOptions): CacheResult<T> {
+  get<T>(key: string, options?: GetOptions<T>): CacheResult<T> {
     if (this.disabled) {
       return { data: null, hit: false, stale: false, needsRevalidation: true };
     }
+    const result = this.read<T>(key, options);
+    this.saveAccesses();
+    return result;
+  }
 
-    const filePath = this.getFilePath(key);
-    if (!fs.existsSync(filePath)) {
+  /**
+   * Get several entries with one manifest update (results by key, in order)
+   */
+  getMany<T>(keys: string[], options?: GetOptions<T>): Map<string, CacheResult<T>> {
+    const results = new Map<string, CacheResult<T>>();
+    const batch: ManifestChange[] = [];
+
+    for (const key of keys) {
+      if (results.has(key)) continue;
+      results.set(
+        key,
+        this.disabled
+          ? { data: null, hit: false, stale: false, needsRevalidation: true }
+          : this.read<T>(key, options, batch)
+      );
+    }
+
+    try {
+      this.applyChanges(batch);
+    } catch (error) {
+      // Only expired or rejected entries are removed here; they are retried on the next read
+      this.emitError("update-manifest", error);
+    }
+    this.saveAccesses();
+    return results;
+  }
+
+  /**
+   * Append buffered reads to the access journal, compacting it now and then
+   */
+  private saveAccesses(): void {
+    if (this.pendingAccesses.length === 0) return;
+
+    const lines = this.pendingAccesses.join("");
+    this.journaled += this.pendingAccesses.length;
+    this.pendingAccesses = [];
+    try {
+      this.store.appendJournal(lines);
+      if (this.journaled >= COMPACT_CHECK_INTERVAL) {
+        this.journaled = 0;
+        compactJournalIfNeeded(this.store);
+      }
+    } catch (error) {
+      // Access tracking is best-effort
+      this.emitError("journal", error);
+    }
+  }
+
+  /**
+   * Look an entry up, dropping it if it is not acceptable, and record the outcome
+   */
+  private read<T>(
+    key: string,
+    options?: LookupOptions<T>,
+    batch?: ManifestChange[]
+  ): CacheResult<T> {
+    const startedAt = performance.now();
+    const result = this.lookup<T>(key, options, batch);
+    if (result.entry && !result.entry.error && !this.isAcceptable(result.entry, options)) {
+      // Written for another schema version or no longer valid: drop it
+      try {
+        this.removeEntry(key, batch);
+      } catch (error) {
+        // Still a miss; removal is retried on the next read
+        this.emitError("invalidate", error, key);
+      }
+      this.metrics.record("rejections", key);
+      this.metrics.record("misses", key);
+      const durationMs = performance.now() - startedAt;
+      emitCacheEvent({ type: "miss", namespace: this.namespace, key, durationMs });
       return { data: null, hit: false, stale: false, needsRevalidation: true };
     }
 
+    this.metrics.record(result.hit ? (result.stale ? "staleHits" : "hits") : "misses", key);
+    emitCacheEvent({
+      type: result.hit ? (result.stale ? "stale" : "hit") : "miss",
+      namespace: this.namespace,
+      key,
+      durationMs: performance.now() - startedAt,
+    });
+    return result;
+  }
+
+  /**
+   * Check an entry against the schema version and the caller's guard
+   */
+  private isAcceptable<T>(entry: CacheEntry<T>, options?: GetOptions<T>): boolean {
+    if (this.schemaVersion !== undefined && entry.version !== this.schemaVersion) {
+      return false;
+    }
+    if (options?.validate) {
+      try {
+        return options.validate(entry.data);
+      } catch (error) {
+        this.emitError("validate", error, entry.key);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Look an entry up in the L1 tier, then the store
+   */
+  private lookup<T>(
+    key: string,
+    options?: LookupOptions<T>,
+    batch?: ManifestChange[]
+  ): CacheResult<T> {
+    const remembered = this.memory?.get(key) as CacheEntry<T> | undefined;
+    if (remembered) {
+      try {
+        this.recordAccess(remembered, this.getFilePath(key));
+        // Removing an expired entry updates the manifest, which can fail
+        const result = this.checkExpiration(key, remembered, options, batch);
+        if (result.hit) this.l1Hits++;
+        return result;
+      } catch (error) {
+        this.emitError("read", error, key);
+        return { data: null, hit: false, stale: false, needsRevalidation: true };
+      }
+    }
+
+    const filePath = this.getFilePath(key);
+
     try {
-      const content = fs.readFileSync(filePath, "utf-8");
-      const entry = JSON.parse(content) as CacheEntry<T>;
-      const now = new Date();
-      const expiresAt = new Date(entry.expiresAt);
-      const ttl = options?.ttl ?? this.defaultTTL;
-      const swr = options?.staleWhileRevalidate ?? this.defaultSWR;
-
-      // Update last accessed time
-      entry.lastAccessedAt = now.toISOString();
-      fs.writeFileSync(filePath, JSON.stringify(entry));
-
-      // Update manifest
-      const manifest = this.getManifest();
-      const manifestKey = filePath;
-      if (manifest.entries[manifestKey]) {
-        manifest.entries[manifestKey].lastAccessedAt = entry.lastAccessedAt;
-        this.saveManifest(manifest);
+      const content = this.store.read(filePath);
+      if (content === null) {
+        return { data: null, hit: false, stale: false, needsRevalidation: true };
       }
+      const stored = parseEntry(content);
+      if (stored.key !== undefined && stored.key !== key) {
+        // Hash collision: the file belongs to a different key
+        return { data: null, hit: false, stale: false, needsRevalidation: true };
+      }
+      // Throws for tampered, wrong-key or unexpectedly plaintext entries -> miss
+      const entry = decodeEntry<T>(stored, this.getEncryption(key));
+      this.recordAccess(entry, filePath);
+
+      const result = this.checkExpiration(key, entry, options, batch);
+      if (result.hit) {
+        this.l2Hits++;
+        this.memory?.set(key, entry, entry.size);
+      }
+      return result;
+    } catch (error) {
+      this.emitError("read", error, key);
+      return { data: null, hit: false, stale: false, needsRevalidation: true };
+    }
+  }
 
-      // Check expiration
-      const isExpired = now > expiresAt;
-      const swrExpiresAt = new Date(expiresAt.getTime() + swr);
-      const isWithinSWR = now <= swrExpiresAt;
+  /**
+   * Journal a read (from L1 or the store) instead of rewriting the file and the manifest
+   */
+  private recordAccess(entry: CacheEntry, filePath: string): void {
+    const now = new Date();
+    entry.lastAccessedAt = now.toISOString();
+    this.pendingAccesses.push(formatAccess(filePath, now.getTime()));
+  }
 
-      if (isExpired && !isWithinSWR) {
-        // Completely expired, remove entry
-        this.invalidate(key);
+  /**
+   * Classify an entry as fresh, stale or expired (expired entries are removed
+   * unless kept as a stale-if-error fallback or for revalidation)
+   */
+  private checkExpiration<T>(
+    key: string,
+    entry: CacheEntry<T>,
+    options?: LookupOptions<T>,
+    batch?: ManifestChange[]
+  ): CacheResult<T> {
+    const now = new Date();
+    const expiresAt = new Date(entry.expiresAt);
+    const swr = options?.staleWhileRevalidate ?? this.defaultSWR;
+
+    // Check expiration
+    const isExpired = now > expiresAt;
+    const swrExpiresAt = new Date(expiresAt.getTime() + swr);
+    const isWithinSWR = now <= swrExpiresAt;
+
+    if (entry.error) {
+      // Negative entry: never a hit, gone once its TTL is up
+      if (isExpired) {
+        this.removeEntry(key, batch);
         return { data: null, hit: false, stale: false, needsRevalidation: true };
       }
+      return { data: null, hit: false, stale: false, needsRevalidation: true, entry };
+    }
 
-      return {
-        data: entry.data,
-        hit: true,
-        stale: isExpired,
-        needsRevalidation: isExpired,
-        entry,
-      };
-    } catch {
+    if (isExpired && !isWithinSWR) {
+      const staleIfError = options?.staleIfError ?? this.defaultStaleIfError;
+      const revalidatable = options?.keepValidated && entryValidator(entry) !== null;
+      if (now.getTime() <= expiresAt.getTime() + staleIfError || revalidatable) {
+        // Keep it as a fallback in case the refetch fails, or for its validators
+        return { data: null, hit: false, stale: false, needsRevalidation: true, entry };
+      }
+      // Completely expired, remove entry
+      this.removeEntry(key, batch);
       return { data: null, hit: false, stale: false, needsRevalidation: true };
     }
+
+    const stale = isExpired || this.shouldRefreshEarly(entry, now.getTime());
+    return {
+      data: entry.data,
+      hit: true,
+      stale,
+      needsRevalidation: stale,
+      entry,
+    };
+  }
+
+  /**
+   * XFetch: refresh a fresh entry early with a probability that grows as its
+   * expiry nears and with its recorded fetch time
+   */
+  private shouldRefreshEarly(entry: CacheEntry, now: number): boolean {
+    if (!this.earlyRefreshBeta || !entry.fetchMs) return false;
+    const headStart = -entry.fetchMs * this.earlyRefreshBeta * Math.log(this.random());
+    return now + headStart >= new Date(entry.expiresAt).getTime();
+  }
+
+  /**
+   * Apply the configured random jitter to a TTL (only ever shortens it)
+   */
+  private jitter(ttl: number): number {
+    if (!this.ttlJitter) return ttl;
+    return Math.round(ttl * (1 - this.ttlJitter * this.random()));
   }
 
   /**
@@ -193,18 +506,58 @@ export class PluginCache {
    */
   async set<T>(key: string, data: T, options?: SetOptions): Promise<void> {
     if (this.disabled) return;
+    return this.writeEntry(key, data, options);
+  }
 
-    const serialized = JSON.stringify(data);
-    const size = Buffer.byteLength(serialized, "utf-8");
+  /**
+   * Set several entries with one manifest update and one cleanup check.
+   * Options given with an entry override the shared options.
+   */
+  async setMany<T>(entries: BatchEntry<T>[], options?: SetOptions): Promise<void> {
+    if (this.disabled || entries.length === 0) return;
 
-    if (size > this.maxEntrySize) {
-      console.warn(
-        `[cache] Entry "${key}" exceeds max size (${size} > ${this.maxEntrySize}), skipping`
-      );
-      return;
+    const batch: ManifestChange[] = [];
+    for (const { key, data, ...entryOptions } of entries) {
+      this.queueWrite(key, data, { ...options, ...entryOptions }, batch);
     }
+    this.applyChanges(batch);
+
+    await cleanupIfNeeded(this.store);
+  }
 
-    const ttl = options?.ttl ?? this.defaultTTL;
+  /**
+   * Write an entry (a negative entry when error is given)
+   */
+  private async writeEntry<T>(
+    key: string,
+    data: T,
+    options?: SetOptions,
+    error?: CachedError
+  ): Promise<void> {
+    const batch: ManifestChange[] = [];
+    this.queueWrite(key, data, options, batch, error);
+    this.applyChanges(batch);
+
+    // Run cleanup if needed
+    await cleanupIfNeeded(this.store);
+  }
+
+  /**
+   * Encode an entry and queue writing it with its manifest record
+   * (oversized entries are skipped)
+   */
+  private queueWrite<T>(
+    key: string,
+    data: T,
+    options: SetOptions | undefined,
+    batch: ManifestChange[],
+    error?: CachedError
+  ): void {
+    const startedAt = performance.now();
+    const serialized = JSON.stringify(data);
+    const size = Buffer.byteLength(serialized, "utf-8");
+
+    const ttl = this.jitter(options?.ttl ?? this.defaultTTL);
     const now = new Date();
     const expiresAt = new Date(now.getTime() + ttl);
 
@@ -213,35 +566,95 @@ export class PluginCache {
       createdAt: now.toISOString(),
       lastAccessedAt: now.toISOString(),
       expiresAt: expiresAt.toISOString(),
+      key,
       size,
       ...(options?.etag && { etag: options.etag }),
       ...(options?.lastModified && { lastModified: options.lastModified }),
-      ...(options?.version && { version: options.version }),
+      ...((options?.version ?? this.schemaVersion) && {
+        version: options?.version ?? this.schemaVersion,
+      }),
+      ...(options?.tags?.length && { tags: options.tags }),
+      ...(error && { error }),
+      ...(options?.fetchMs !== undefined && { fetchMs: options.fetchMs }),
     };
 
+    const content = encodeEntry(entry, serialized, {
+      codec: this.compression,
+      threshold: this.compressionThreshold,
+      encryption: this.getEncryption(key),
+    });
+    const storedSize = Buffer.byteLength(content, "utf-8");
+
+    if (storedSize > this.maxEntrySize) {
+      console.warn(
+        `[cache] Entry "${key}" exceeds max size (${storedSize} > ${this.maxEntrySize}), skipping`
+      );
+      emitCacheEvent({
+        type: "skip-oversize",
+        namespace: this.namespace,
+        key,
+        size: storedSize,
+        maxSize: this.maxEntrySize,
+      });
+      return;
+    }
+
     const filePath = this.getFilePath(key);
 
-    // Update manifest first
-    const manifest = this.getManifest();
-    const oldEntry = manifest.entries[filePath];
-    const oldSize = oldEntry?.size ?? 0;
+    batch.push((manifest) => {
+      // Update manifest first
+      const oldEntry = manifest.entries[filePath];
+      const oldSize = oldEntry?.size ?? 0;
 
-    manifest.entries[filePath] = {
-      filePath,
-      namespace: this.namespace,
-      key,
-      size,
-      lastAccessedAt: entry.lastAccessedAt,
-      expiresAt: entry.expiresAt,
-    };
-    manifest.totalSize = manifest.totalSize - oldSize + size;
-    this.saveManifest(manifest);
+      manifest.entries[filePath] = {
+        filePath,
+        namespace: this.namespace,
+        key,
+        size: storedSize,
+        logicalSize: size,
+        createdAt: entry.createdAt,
+        lastAccessedAt: entry.lastAccessedAt,
+        expiresAt: entry.expiresAt,
+        ...(entry.tags && { tags: entry.tags }),
+        ...(oldEntry?.accessCount && { accessCount: oldEntry.accessCount }),
+        ...(options?.fetchMs !== undefined && { fetchMs: options.fetchMs }),
+        ...(error && { negative: true }),
+      };
+      manifest.totalSize = manifest.totalSize - oldSize + storedSize;
 
-    // Write cache file
-    fs.writeFileSync(filePath, JSON.stringify(entry, null, 2));
+      // Write cache file
+      this.store.write(filePath, content);
+      this.memory?.set(key, entry, size);
+      emitCacheEvent({
+        type: "set",
+        namespace: this.namespace,
+        key,
+        size: storedSize,
+        ttl,
+        durationMs: performance.now() - startedAt,
+      });
+    });
+  }
 
-    // Run cleanup if needed
-    await cleanupIfNeeded(this.cacheDir);
+  /**
+   * Apply a manifest change now, or queue it when batching
+   */
+  private changeManifest(change: ManifestChange, batch?: ManifestChange[]): void {
+    if (batch) {
+      batch.push(change);
+    } else {
+      updateManifest(this.store, change);
+    }
+  }
+
+  /**
+   * Apply queued manifest changes in one locked update
+   */
+  private applyChanges(batch: ManifestChange[]): void {
+    if (batch.length === 0) return;
+    updateManifest(this.store, (manifest) => {
+      for (const change of batch) change(manifest);
+    });
   }
 
   /**
@@ -249,38 +662,374 @@ export class PluginCache {
    */
   async getOrFetch<T>(
     key: string,
-    fetcher: () => Promise<T>,
-    options?: GetOrFetchOptions
+    fetcher: (signal: AbortSignal) => Promise<T>,
+    options?: GetOrFetchOptions<T>
+  ): Promise<T> {
+    return this.fetchThrough(
+      key,
+      (_current, signal) => fetcher(signal).then((data) => ({ data })),
+      options
+    );
+  }
+
+  /**
+   * Like getOrFetch, but stale and expired entries are revalidated instead of
+   * refetched: the fetcher gets the stored validators (null when there are
+   * none) and returns NotModified to keep the data and renew its TTL, or new
+   * data with its validators to store. Expired entries with validators are
+   * kept however old they are, until cleanup removes them.
+   */
+  async getOrRevalidate<T>(
+    key: string,
+    fetcher: (
+      validator: CacheValidator | null,
+      signal: AbortSignal
+    ) => Promise<RevalidationResult<T>>,
+    options?: GetOrFetchOptions<T>
+  ): Promise<T> {
+    return this.fetchThrough(
+      key,
+      (current, signal) => fetcher(current ? entryValidator(current) : null, signal),
+      options,
+      true
+    );
+  }
+
+  /**
+   * Cache-aside lookup shared by getOrFetch and getOrRevalidate
+   * (revalidating: keep expired entries that can be revalidated)
+   */
+  private async fetchThrough<T>(
+    key: string,
+    fetcher: EntryFetcher<T>,
+    options?: GetOrFetchOptions<T>,
+    revalidating = false
   ): Promise<T> {
     if (this.disabled || options?.bypassCache) {
-      const data = await fetcher();
+      const startedAt = Date.now();
+      const result = await this.runFetcher(
+        (signal) => fetcher(undefined, signal),
+        options?.timeout
+      );
       if (!this.disabled) {
-        await this.set(key, data, options);
+        this.metrics.record("bypasses", key);
       }
-      return data;
+      return this.storeResult(key, result, undefined, options, Date.now() - startedAt);
     }
 
-    const cached = this.get<T>(key, {
+    const cached = this.read<T>(key, {
       ttl: options?.ttl,
       staleWhileRevalidate: options?.staleWhileRevalidate,
+      staleIfError: options?.staleIfError,
+      validate: options?.validate,
+      keepValidated: revalidating,
     });
+    this.saveAccesses();
 
     if (cached.hit && !cached.stale) {
       return cached.data!;
     }
 
     if (cached.hit && cached.stale) {
-      // Return stale data but trigger background refresh
-      // In synchronous context, we just fetch and update
-      const freshData = await fetcher();
-      await this.set(key, freshData, options);
-      return freshData;
+      // Return stale data and refresh in the background.
+      // Refresh errors are ignored: the stale copy keeps being served.
+      this.fetchAndStore(key, fetcher, options, { current: cached.entry, background: true }).catch(
+        (error) => this.emitError("refresh", error, key)
+      );
+      return cached.data!;
+    }
+
+    if (cached.entry?.error) {
+      // Remembered failure (negative caching): don't call the source again yet
+      throw new CachedFetchError(cached.entry.error, cached.entry.expiresAt);
+    }
+
+    // Cache miss - fetch fresh, falling back to an expired copy if that fails
+    // and it is within the stale-if-error window (not only kept for revalidation)
+    const current = cached.entry;
+    const staleIfError = options?.staleIfError ?? this.defaultStaleIfError;
+    const revalidateOnly =
+      !!current && Date.now() > new Date(current.expiresAt).getTime() + staleIfError;
+    return this.fetchAndStore(key, fetcher, options, { current, revalidateOnly });
+  }
+
+  /**
+   * Batch cache-aside: serve cached keys and fetch the rest with one
+   * batchFetcher call. Stale keys are served and refreshed in the background,
+   * or fetched along with the missing keys when there are any. Keys the
+   * fetcher does not return, and keys with a remembered failure, are absent
+   * from the result.
+   */
+  async getOrFetchMany<T>(
+    keys: string[],
+    batchFetcher: BatchFetcher<T>,
+    options?: GetOrFetchOptions<T>
+  ): Promise<Map<string, T>> {
+    const unique = [...new Set(keys)];
+    if (this.disabled || options?.bypassCache) {
+      if (!this.disabled) {
+        unique.forEach((key) => this.metrics.record("bypasses", key));
+      }
+      return this.fetchMany(unique, batchFetcher, options);
+    }
+
+    const found = new Map<string, T>();
+    const missing: string[] = [];
+    const stale: string[] = [];
+    const fallbacks = new Map<string, T>();
+
+    const cached = this.getMany<T>(unique, {
+      ttl: options?.ttl,
+      staleWhileRevalidate: options?.staleWhileRevalidate,
+      staleIfError: options?.staleIfError,
+      validate: options?.validate,
+    });
+    for (const [key, result] of cached) {
+      if (result.hit) {
+        found.set(key, result.data!);
+        if (result.stale) stale.push(key);
+      } else if (!result.entry?.error) {
+        // Remembered failures (negative caching) are neither served nor fetched
+        missing.push(key);
+        if (result.entry) fallbacks.set(key, result.entry.data);
+      }
+    }
+
+    if (missing.length === 0) {
+      if (stale.length > 0) {
+        // Refresh errors are ignored: the stale copies keep being served
+        this.singleFlight(`${BATCH_FLIGHT_PREFIX}${stale.join("\n")}`, () =>
+          this.fetchMany(stale, batchFetcher, options)
+        ).catch((error) => this.emitError("refresh", error));
+      }
+      return found;
     }
 
-    // Cache miss - fetch fresh
-    const data = await fetcher();
-    await this.set(key, data, options);
-    return data;
+    try {
+      const fetched = await this.fetchMany([...missing, ...stale], batchFetcher, options);
+      fetched.forEach((data, key) => found.set(key, data));
+    } catch (error) {
+      const failed = missing.filter((key) => !fallbacks.has(key));
+      if (failed.length > 0) {
+        const remember = options?.cacheErrorIf?.(error) ?? true;
+        if (options?.negativeTtl && remember) {
+          await this.rememberFailures(failed, error, options.negativeTtl);
+        }
+        throw error;
+      }
+      // Every missing key has an expired copy to serve instead (stale-if-error)
+      this.emitError("fetch", error);
+      fallbacks.forEach((data, key) => found.set(key, data));
+    }
+
+    // Results in the order the keys were asked for
+    const ordered = new Map<string, T>();
+    for (const key of unique) {
+      if (found.has(key)) ordered.set(key, found.get(key)!);
+    }
+    return ordered;
+  }
+
+  /**
+   * Call a batch fetcher and store the requested keys it returned
+   * (one manifest update, one cleanup check)
+   */
+  private async fetchMany<T>(
+    keys: string[],
+    batchFetcher: BatchFetcher<T>,
+    options?: GetOrFetchOptions<T>
+  ): Promise<Map<string, T>> {
+    const startedAt = Date.now();
+    const returned = await this.runFetcher(
+      (signal) => batchFetcher(keys, signal),
+      options?.timeout
+    );
+    const fetchMs = Date.now() - startedAt;
+
+    const requested = new Set(keys);
+    const entries = returned instanceof Map ? [...returned] : Object.entries(returned);
+    const fetched = new Map(entries.filter(([key]) => requested.has(key)));
+
+    if (!this.disabled && fetched.size > 0) {
+      // The batch's fetch time is split evenly across the keys it returned
+      const share = fetchMs / fetched.size;
+      fetched.forEach((_, key) => this.metrics.recordFetch(key, share));
+      await this.setMany(
+        [...fetched].map(([key, data]) => ({ key, data, fetchMs: share })),
+        options
+      );
+    }
+    return fetched;
+  }
+
+  /**
+   * Call a fetcher with an AbortSignal, rejecting with FetchTimeoutError
+   * (and aborting the signal) once the timeout passes
+   */
+  private runFetcher<T>(
+    fetcher: (signal: AbortSignal) => Promise<T>,
+    timeout?: number
+  ): Promise<T> {
+    const controller = new AbortController();
+    if (!timeout) {
+      return fetcher(controller.signal);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const error = new FetchTimeoutError(timeout);
+        controller.abort(error);
+        reject(error);
+      }, timeout);
+      fetcher(controller.signal)
+        .then(resolve, reject)
+        .finally(() => clearTimeout(timer));
+    });
+  }
+
+  /**
+   * Fetch and store a key, sharing one in-flight fetch per key (single-flight).
+   * On failure, serves the current entry (stale-if-error) unless there is none
+   * or it was only kept for its validators; otherwise remembers the failure
+   * (negative caching) and rethrows.
+   */
+  private fetchAndStore<T>(
+    key: string,
+    fetcher: EntryFetcher<T>,
+    options?: GetOrFetchOptions<T>,
+    context?: { current?: CacheEntry<T>; background?: boolean; revalidateOnly?: boolean }
+  ): Promise<T> {
+    return this.singleFlight(key, async () => {
+      const current = context?.current;
+      const startedAt = Date.now();
+      let result: RevalidationResult<T>;
+      try {
+        result = await this.runFetcher((signal) => fetcher(current, signal), options?.timeout);
+      } catch (error) {
+        if (current && !context?.revalidateOnly) {
+          // Serving the current copy instead (stale-if-error)
+          this.emitError(context?.background ? "refresh" : "fetch", error, key);
+          return current.data;
+        }
+        const remember = options?.cacheErrorIf?.(error) ?? true;
+        if (!context?.background && options?.negativeTtl && remember) {
+          await this.rememberFailures([key], error, options.negativeTtl);
+        }
+        throw error;
+      }
+      return this.storeResult(key, result, current, options, Date.now() - startedAt);
+    });
+  }
+
+  /**
+   * Store a fetcher's result and return its data: NotModified renews the
+   * current entry's TTL, new data is written with its validators
+   */
+  private async storeResult<T>(
+    key: string,
+    result: RevalidationResult<T>,
+    current: CacheEntry<T> | undefined,
+    options: GetOrFetchOptions<T> | undefined,
+    fetchMs: number
+  ): Promise<T> {
+    if (result === NotModified) {
+      if (!current) {
+        throw new Error(`Fetcher for "${key}" returned NotModified, but nothing is cached`);
+      }
+      if (!this.disabled) {
+        this.metrics.record("revalidations", key);
+        this.extendTTL(key, options?.ttl);
+      }
+      return current.data;
+    }
+
+    if (!this.disabled) {
+      this.metrics.recordFetch(key, fetchMs);
+      await this.set(key, result.data, {
+        ...options,
+        fetchMs,
+        ...(result.etag && { etag: result.etag }),
+        ...(result.lastModified && { lastModified: result.lastModified }),
+      });
+    }
+    return result.data;
+  }
+
+  /**
+   * Share one in-flight cachedHttpFetch() request per key; awaited by flush()
+   * like any fetch. Internal to http.ts.
+   */
+  shareRequest<T>(key: string, request: () => Promise<T>): Promise<T> {
+    return this.singleFlight(`${HTTP_FLIGHT_PREFIX}${key}`, request);
+  }
+
+  /**
+   * Emit an error event for a failure handled outside the cache, e.g. a
+   * failed background revalidation in cachedHttpFetch()
+   */
+  reportError(operation: string, error: unknown, key?: string): void {
+    this.emitError(operation, error, key);
+  }
+
+  /**
+   * Run a task for a key unless one is already running, in which case its
+   * promise is shared. Tasks are awaited by flush() and counted by pendingCount().
+   */
+  private singleFlight<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = (async () => {
+      try {
+        return await task();
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Store negative entries for keys whose fetch failed (one manifest update)
+   */
+  private async rememberFailures(keys: string[], error: unknown, ttl: number): Promise<void> {
+    const failure: CachedError =
+      error instanceof Error
+        ? { name: error.name, message: error.message }
+        : { name: "Error", message: String(error) };
+    try {
+      const batch: ManifestChange[] = [];
+      for (const key of keys) {
+        this.queueWrite(key, null, { ttl }, batch, failure);
+      }
+      this.applyChanges(batch);
+      await cleanupIfNeeded(this.store);
+    } catch (writeError) {
+      // Negative caching is best-effort; the original error is rethrown anyway
+      this.emitError("remember-failure", writeError, keys.length === 1 ? keys[0] : undefined);
+    }
+  }
+
+  /**
+   * Wait for all pending fetches and background refreshes to finish,
+   * then save buffered metrics.
+   * Call before a short-lived process exits so refreshed data gets saved.
+   */
+  async flush(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.allSettled([...this.inFlight.values()]);
+    }
+    this.metrics.flush();
+  }
+
+  /**
+   * Number of fetches or background refreshes currently in flight
+   */
+  pendingCount(): number {
+    return this.inFlight.size;
   }
 
   /**
@@ -289,50 +1038,88 @@ export class PluginCache {
   invalidate(key: string): boolean {
     if (this.disabled) return false;
 
-    const filePath = this.getFilePath(key);
-    if (!fs.existsSync(filePath)) return false;
+    let removed = false;
+    try {
+      this.removeEntry(key, undefined, () => (removed = true));
+    } catch (error) {
+      this.emitError("invalidate", error, key);
+    }
+    return removed;
+  }
 
+  /**
+   * Invalidate several entries with one manifest update; returns how many were removed
+   */
+  invalidateMany(keys: string[]): number {
+    if (this.disabled) return 0;
+
+    let removed = 0;
+    const batch: ManifestChange[] = [];
+    for (const key of new Set(keys)) {
+      this.removeEntry(key, batch, () => removed++);
+    }
     try {
-      // Get size before deleting
-      const content = fs.readFileSync(filePath, "utf-8");
-      const entry = JSON.parse(content) as CacheEntry;
+      this.applyChanges(batch);
+    } catch (error) {
+      this.emitError("invalidate", error);
+    }
+    return removed;
+  }
 
-      // Delete file
-      fs.unlinkSync(filePath);
+  /**
+   * Delete an entry's file and manifest record (queued when batching);
+   * onRemoved runs once the file is deleted
+   */
+  private removeEntry(key: string, batch?: ManifestChange[], onRemoved?: () => void): void {
+    const filePath = this.getFilePath(key);
+    this.memory?.delete(key);
+    if (!this.store.exists(filePath)) return;
+
+    this.changeManifest((manifest) => {
+      try {
+        // Delete file
+        if (!this.store.delete(filePath)) return;
+      } catch (error) {
+        this.emitError("invalidate", error, key);
+        return;
+      }
 
-      // Update manifest
-      const manifest = this.getManifest();
-      if (manifest.entries[filePath]) {
+      // Update manifest (the manifest's size is what was added to totalSize)
+      const entry = manifest.entries[filePath];
+      if (entry) {
         manifest.totalSize -= entry.size;
         delete manifest.entries[filePath];
-        this.saveManifest(manifest);
       }
-
-      return true;
-    } catch {
-      return false;
-    }
+      emitCacheEvent({ type: "invalidate", namespace: this.namespace, key });
+      onRemoved?.();
+    }, batch);
   }
 
   /**
-   * Invalidate multiple entries matching a pattern
+   * Invalidate multiple entries matching a pattern (one manifest write)
    */
   invalidatePattern(pattern: string | RegExp): number {
     if (this.disabled) return 0;
 
-    const manifest = this.getManifest();
     const regex = typeof pattern === "string" ? new RegExp(pattern) : pattern;
-    let count = 0;
+    this.memory?.deleteWhere((key) => regex.test(key));
+    return invalidateEntries(this.store, this.namespace, { pattern: regex }).entriesRemoved;
+  }
 
-    for (const [filePath, entry] of Object.entries(manifest.entries)) {
-      if (entry.namespace === this.namespace && regex.test(entry.key)) {
-        if (this.invalidate(entry.key)) {
-          count++;
-        }
-      }
-    }
+  /**
+   * Invalidate all entries carrying any of the given tags (one manifest write)
+   */
+  invalidateTags(tags: string[]): number {
+    if (this.disabled || tags.length === 0) return 0;
+    this.memory?.deleteWhere((_, entry) => !!entry.tags?.some((tag) => tags.includes(tag)));
+    return invalidateByTags(this.store, this.namespace, tags).entriesRemoved;
+  }
 
-    return count;
+  /**
+   * Invalidate all entries carrying a tag
+   */
+  invalidateTag(tag: string): number {
+    return this.invalidateTags([tag]);
   }
 
   /**
@@ -340,30 +1127,75 @@ export class PluginCache {
    */
   clear(): number {
     if (this.disabled) return 0;
-
-    const manifest = this.getManifest();
-    let count = 0;
-    let freedSize = 0;
-
-    for (const [filePath, entry] of Object.entries(manifest.entries)) {
-      if (entry.namespace === this.namespace) {
-        try {
-          if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
+    this.memory?.clear();
+
+    return updateManifest(this.store, (manifest) => {
+      let count = 0;
+      let freedSize = 0;
+
+      for (const [filePath, entry] of Object.entries(manifest.entries)) {
+        if (entry.namespace === this.namespace) {
+          try {
+            this.store.delete(filePath);
+            freedSize += entry.size;
+            delete manifest.entries[filePath];
+            count++;
+            emitCacheEvent({ type: "invalidate", namespace: this.namespace, key: entry.key });
+          } catch (error) {
+            this.emitError("clear", error, entry.key);
           }
-          freedSize += entry.size;
-          delete manifest.entries[filePath];
-          count++;
-        } catch {
-          // Ignore errors
         }
       }
-    }
 
-    manifest.totalSize -= freedSize;
-    this.saveManifest(manifest);
+      manifest.totalSize -= freedSize;
+      return count;
+    });
+  }
+
+  /**
+   * Give an entry a new TTL from now without rewriting its data, e.g. after a
+   * 304 Not Modified. Validators are updated when given.
+   * Returns false if the key is not cached.
+   */
+  extendTTL(key: string, ttl?: number, validator?: CacheValidator): boolean {
+    if (this.disabled) return false;
 
-    return count;
+    const filePath = this.getFilePath(key);
+    // Dropped from L1 so the next lookup sees the new expiry
+    this.memory?.delete(key);
+
+    try {
+      const content = this.store.read(filePath);
+      if (content === null) return false;
+      const stored = parseEntry(content);
+      if (stored.key !== undefined && stored.key !== key) return false;
+
+      const now = new Date();
+      const renewed = this.jitter(ttl ?? this.defaultTTL);
+      stored.expiresAt = new Date(now.getTime() + renewed).toISOString();
+      stored.lastAccessedAt = now.toISOString();
+      if (validator?.etag) stored.etag = validator.etag;
+      if (validator?.lastModified) stored.lastModified = validator.lastModified;
+
+      // Payload is written back as-is, not re-encoded
+      const updated = JSON.stringify(stored);
+      const storedSize = Buffer.byteLength(updated, "utf-8");
+
+      updateManifest(this.store, (manifest) => {
+        const manifestEntry = manifest.entries[filePath];
+        if (manifestEntry) {
+          manifest.totalSize += storedSize - manifestEntry.size;
+          manifestEntry.size = storedSize;
+          manifestEntry.expiresAt = stored.expiresAt;
+          manifestEntry.lastAccessedAt = stored.lastAccessedAt;
+        }
+        this.store.write(filePath, updated);
+      });
+      return true;
+    } catch (error) {
+      this.emitError("extend-ttl", error, key);
+      return false;
+    }
   }
 
   /**
@@ -372,18 +1204,15 @@ export class PluginCache {
   getValidator(key: string): CacheValidator | null {
     if (this.disabled) return null;
 
-    const filePath = this.getFilePath(key);
-    if (!fs.existsSync(filePath)) return null;
-
     try {
-      const content = fs.readFileSync(filePath, "utf-8");
-      const entry = JSON.parse(content) as CacheEntry;
-      if (!entry.etag && !entry.lastModified) return null;
-      return {
-        ...(entry.etag && { etag: entry.etag }),
-        ...(entry.lastModified && { lastModified: entry.lastModified }),
-      };
-    } catch {
+      const content = this.store.read(this.getFilePath(key));
+      if (content === null) return null;
+      // Validators are metadata, so the payload never needs decoding here
+      const entry = parseEntry(content);
+      if (this.encryptionKey && entry.cipher?.keyId !== this.encryptionKey.id) return null;
+      return entryValidator(entry);
+    } catch (error) {
+      this.emitError("read", error, key);
       return null;
     }
   }
@@ -399,13 +1228,18 @@ export class PluginCache {
         totalSize: 0,
         expiredCount: 0,
         staleCount: 0,
+        l1Hits: this.l1Hits,
+        l2Hits: this.l2Hits,
       };
     }
 
-    const manifest = this.getManifest();
+    const manifest = withPendingAccesses(this.store, this.getManifest());
+    this.metrics.flush();
+    const metrics = readMetrics(this.store, { namespace: this.namespace })[this.namespace];
     const now = new Date();
     let entryCount = 0;
     let totalSize = 0;
+    let logicalSize = 0;
     let expiredCount = 0;
     let staleCount = 0;
     let oldestEntry: string | undefined;
@@ -416,6 +1250,7 @@ export class PluginCache {
 
       entryCount++;
       totalSize += entry.size;
+      logicalSize += entry.logicalSize ?? entry.size;
 
       const expiresAt = new Date(entry.expiresAt);
       const swrExpiresAt = new Date(expiresAt.getTime() + this.defaultSWR);
@@ -438,10 +1273,21 @@ export class PluginCache {
       namespace: this.namespace,
       entryCount,
       totalSize,
+      logicalSize,
+      ...(manifest.quotas?.[this.namespace] !== undefined && {
+        quota: manifest.quotas[this.namespace],
+      }),
       expiredCount,
       staleCount,
       oldestEntry,
       newestEntry,
+      l1Hits: this.l1Hits,
+      l2Hits: this.l2Hits,
+      ...(this.memory && {
+        memoryEntries: this.memory.size,
+        memorySize: this.memory.totalBytes,
+      }),
+      ...(metrics && { metrics }),
     };
   }
 
@@ -462,6 +1308,6 @@ export class PluginCache {
    */
   has(key: string): boolean {
     if (this.disabled) return false;
-    return fs.existsSync(this.getFilePath(key));
+    return this.store.exists(this.getFilePath(key));
   }
 }
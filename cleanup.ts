@@ -1,64 +1,168 @@
 /**
- * Cache Cleanup - LRU eviction logic
- * Automatically cleans up when cache exceeds size limits
+ * Cache Cleanup - Eviction logic (LRU by default, see eviction.ts)
+ * Automatically cleans up when the cache or a namespace exceeds its size limit
  */
 
-import * as fs from "fs";
-import * as path from "path";
-import { CacheManifest, CleanupResult, ManifestEntry } from "./types";
+import {
+  CacheManifest,
+  CacheStore,
+  CleanupOptions,
+  CleanupResult,
+  InvalidationFilter,
+  InvalidationResult,
+  KeyRotationResult,
+  ManifestEntry,
+} from "./types";
+import { resolveStore } from "./file-store";
+import { decodeEntry, encodeEntry, parseEntry } from "./codec";
+import { EncryptionKey, entryAAD } from "./encryption";
+import { EvictionPolicy, getEvictionPolicy, orderForEviction } from "./eviction";
+import { recordEvictions } from "./metrics";
+import { emitCacheEvent } from "./events";
+import { compactJournal, compactJournalIfNeeded } from "./journal";
+import {
+  DEFAULT_MAX_SIZE,
+  readManifest,
+  updateManifest,
+  writeManifest,
+  withManifestLock,
+} from "./manifest";
 
-const DEFAULT_MAX_SIZE = 500 * 1024 * 1024; // 500MB
 const CLEANUP_THRESHOLD = 0.9; // 90% triggers cleanup
 const CLEANUP_TARGET = 0.7; // Clean down to 70%
 
 /**
- * Check if cleanup is needed and perform if necessary
+ * Report an exception that is skipped over without failing the operation
+ */
+function emitError(operation: string, error: unknown, namespace?: string, key?: string): void {
+  emitCacheEvent({ type: "error", namespace, key, operation, error });
+}
+
+/**
+ * Bytes used per namespace
+ */
+export function getNamespaceUsage(manifest: CacheManifest): Record<string, number> {
+  const usage: Record<string, number> = {};
+  for (const entry of Object.values(manifest.entries)) {
+    usage[entry.namespace] = (usage[entry.namespace] ?? 0) + entry.size;
+  }
+  return usage;
+}
+
+/**
+ * Namespaces using more than their quota
  */
-export async function cleanupIfNeeded(cacheDir: string): Promise<CleanupResult | null> {
-  const manifestPath = path.join(cacheDir, "manifest.json");
+function getOverQuotaNamespaces(manifest: CacheManifest): string[] {
+  const usage = getNamespaceUsage(manifest);
+  return Object.entries(manifest.quotas ?? {})
+    .filter(([namespace, quota]) => (usage[namespace] ?? 0) > quota)
+    .map(([namespace]) => namespace);
+}
 
-  if (!fs.existsSync(manifestPath)) {
+/**
+ * Check if cleanup is needed and perform if necessary
+ */
+export async function cleanupIfNeeded(cacheDir: string | CacheStore): Promise<CleanupResult | null> {
+  const store = resolveStore(cacheDir);
+  if (!store.hasManifest()) {
     return null;
   }
 
-  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8")) as CacheManifest;
+  compactJournalIfNeeded(store);
+
+  // Cheap unlocked check first; the cleanup re-reads under the lock
+  const manifest = readManifest(store);
   const maxSize = manifest.maxSize || DEFAULT_MAX_SIZE;
   const threshold = maxSize * CLEANUP_THRESHOLD;
 
-  if (manifest.totalSize < threshold) {
+  if (manifest.totalSize < threshold && getOverQuotaNamespaces(manifest).length === 0) {
     return null;
   }
 
-  return performCleanup(cacheDir, manifest);
+  return updateManifest(store, (current) =>
+    runCleanup(store, current, getEvictionPolicy(current.evictionPolicy), false)
+  );
 }
 
 /**
- * Perform LRU cleanup
+ * Perform cleanup (over-quota namespaces first, then globally)
+ *
+ * @param manifest - Deprecated and ignored: the manifest is always re-read
+ *   under the manifest lock so concurrent updates are not lost
  */
 export function performCleanup(
-  cacheDir: string,
-  manifest?: CacheManifest
+  cacheDir: string | CacheStore,
+  manifest?: CacheManifest,
+  options?: CleanupOptions
 ): CleanupResult {
-  const manifestPath = path.join(cacheDir, "manifest.json");
+  const store = resolveStore(cacheDir);
+  if (!store.hasManifest()) {
+    return { entriesRemoved: 0, bytesFreed: 0, newTotalSize: 0 };
+  }
 
-  if (!manifest) {
-    if (!fs.existsSync(manifestPath)) {
-      return { entriesRemoved: 0, bytesFreed: 0, newTotalSize: 0 };
-    }
-    manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8")) as CacheManifest;
+  return updateManifest(store, (current) => {
+    const policy = getEvictionPolicy(options?.policy ?? current.evictionPolicy);
+    return runCleanup(store, current, policy, true);
+  });
+}
+
+/**
+ * Evict from over-quota namespaces, then globally if over the threshold
+ * (or always, when force is set)
+ */
+function runCleanup(
+  store: CacheStore,
+  manifest: CacheManifest,
+  policy: EvictionPolicy,
+  force: boolean
+): CleanupResult {
+  let entriesRemoved = 0;
+  let bytesFreed = 0;
+
+  // Policies need current access times and counts
+  compactJournal(store, manifest);
+
+  // Fair share: namespaces over their quota pay first
+  const usage = getNamespaceUsage(manifest);
+  for (const namespace of getOverQuotaNamespaces(manifest)) {
+    const quota = manifest.quotas![namespace];
+    const entries = Object.values(manifest.entries).filter((e) => e.namespace === namespace);
+    const freed = evict(store, manifest, policy, entries, usage[namespace], quota * CLEANUP_TARGET);
+    entriesRemoved += freed.entriesRemoved;
+    bytesFreed += freed.bytesFreed;
   }
 
   const maxSize = manifest.maxSize || DEFAULT_MAX_SIZE;
-  const targetSize = maxSize * CLEANUP_TARGET;
+  if (force || manifest.totalSize >= maxSize * CLEANUP_THRESHOLD) {
+    const entries = Object.values(manifest.entries);
+    const freed = evict(store, manifest, policy, entries, manifest.totalSize, maxSize * CLEANUP_TARGET);
+    entriesRemoved += freed.entriesRemoved;
+    bytesFreed += freed.bytesFreed;
+  }
 
-  // Sort entries by last accessed time (oldest first)
-  const entries = Object.values(manifest.entries).sort((a, b) => {
-    const aTime = new Date(a.lastAccessedAt).getTime();
-    const bTime = new Date(b.lastAccessedAt).getTime();
-    return aTime - bTime;
-  });
+  manifest.lastCleanup = new Date().toISOString();
+
+  return {
+    entriesRemoved,
+    bytesFreed,
+    newTotalSize: manifest.totalSize,
+  };
+}
+
+/**
+ * Evict entries in policy order until currentSize is down to targetSize
+ */
+function evict(
+  store: CacheStore,
+  manifest: CacheManifest,
+  policy: EvictionPolicy,
+  candidates: ManifestEntry[],
+  currentSize: number,
+  targetSize: number
+): { entriesRemoved: number; bytesFreed: number } {
+  const entries = orderForEviction(candidates, policy);
+  const evicted: ManifestEntry[] = [];
 
-  let currentSize = manifest.totalSize;
   let entriesRemoved = 0;
   let bytesFreed = 0;
 
@@ -68,178 +172,356 @@ export function performCleanup(
     }
 
     try {
-      if (fs.existsSync(entry.filePath)) {
-        fs.unlinkSync(entry.filePath);
-      }
+      store.delete(entry.filePath);
       delete manifest.entries[entry.filePath];
       currentSize -= entry.size;
       bytesFreed += entry.size;
       entriesRemoved++;
-    } catch {
-      // Ignore individual file deletion errors
+      evicted.push(entry);
+      emitCacheEvent({
+        type: "evict",
+        namespace: entry.namespace,
+        key: entry.key,
+        size: entry.size,
+        reason: "size",
+        policy: policy.name,
+      });
+    } catch (error) {
+      // Skip entries that cannot be deleted
+      emitError("evict", error, entry.namespace, entry.key);
     }
   }
 
   // Update manifest
-  manifest.totalSize = currentSize;
-  manifest.lastCleanup = new Date().toISOString();
-  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  manifest.totalSize -= bytesFreed;
+  recordEvictions(store, evicted);
 
-  return {
-    entriesRemoved,
-    bytesFreed,
-    newTotalSize: currentSize,
-  };
+  return { entriesRemoved, bytesFreed };
 }
 
 /**
  * Remove all expired entries (past SWR window)
  */
 export function purgeExpired(
-  cacheDir: string,
+  cacheDir: string | CacheStore,
   defaultSWR: number = 24 * 60 * 60 * 1000
 ): CleanupResult {
-  const manifestPath = path.join(cacheDir, "manifest.json");
-
-  if (!fs.existsSync(manifestPath)) {
+  const store = resolveStore(cacheDir);
+  if (!store.hasManifest()) {
     return { entriesRemoved: 0, bytesFreed: 0, newTotalSize: 0 };
   }
 
-  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8")) as CacheManifest;
-  const now = new Date();
-  let entriesRemoved = 0;
-  let bytesFreed = 0;
-
-  for (const [filePath, entry] of Object.entries(manifest.entries)) {
-    const expiresAt = new Date(entry.expiresAt);
-    const swrExpiresAt = new Date(expiresAt.getTime() + defaultSWR);
-
-    if (now > swrExpiresAt) {
-      try {
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
+  return updateManifest(store, (manifest) => {
+    const now = new Date();
+    let entriesRemoved = 0;
+    let bytesFreed = 0;
+
+    for (const [filePath, entry] of Object.entries(manifest.entries)) {
+      const expiresAt = new Date(entry.expiresAt);
+      const swrExpiresAt = new Date(expiresAt.getTime() + defaultSWR);
+
+      if (now > swrExpiresAt) {
+        try {
+          store.delete(filePath);
+          bytesFreed += entry.size;
+          delete manifest.entries[filePath];
+          entriesRemoved++;
+          emitCacheEvent({
+            type: "evict",
+            namespace: entry.namespace,
+            key: entry.key,
+            size: entry.size,
+            reason: "expired",
+          });
+        } catch (error) {
+          // Skip entries that cannot be deleted
+          emitError("purge", error, entry.namespace, entry.key);
         }
-        bytesFreed += entry.size;
-        delete manifest.entries[filePath];
-        entriesRemoved++;
-      } catch {
-        // Ignore individual errors
       }
     }
-  }
 
-  manifest.totalSize -= bytesFreed;
-  manifest.lastCleanup = new Date().toISOString();
-  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+    manifest.totalSize -= bytesFreed;
+    manifest.lastCleanup = new Date().toISOString();
 
-  return {
-    entriesRemoved,
-    bytesFreed,
-    newTotalSize: manifest.totalSize,
-  };
+    return {
+      entriesRemoved,
+      bytesFreed,
+      newTotalSize: manifest.totalSize,
+    };
+  });
 }
 
 /**
- * Clear entire cache
+ * Remove all entries in a namespace carrying any of the given tags
  */
-export function clearAll(cacheDir: string): CleanupResult {
-  const manifestPath = path.join(cacheDir, "manifest.json");
+export function invalidateByTags(
+  cacheDir: string | CacheStore,
+  namespace: string,
+  tags: string[]
+): CleanupResult {
+  const { keys, ...result } = invalidateEntries(cacheDir, namespace, { tags });
+  return result;
+}
 
-  if (!fs.existsSync(manifestPath)) {
-    return { entriesRemoved: 0, bytesFreed: 0, newTotalSize: 0 };
+/**
+ * Creation time of an entry (from the manifest, else from the stored entry)
+ */
+function createdAtOf(store: CacheStore, entry: ManifestEntry): number | null {
+  let createdAt = entry.createdAt;
+  if (!createdAt) {
+    try {
+      const content = store.read(entry.filePath);
+      createdAt = content !== null ? parseEntry(content).createdAt : undefined;
+    } catch (error) {
+      // Unparsable entry: age unknown
+      emitError("read", error, entry.namespace, entry.key);
+    }
   }
+  const time = createdAt ? new Date(createdAt).getTime() : NaN;
+  return isNaN(time) ? null : time;
+}
 
-  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8")) as CacheManifest;
-  let entriesRemoved = 0;
-  let bytesFreed = 0;
+/**
+ * Invalidate entries in a namespace matching every criterion of a filter
+ * (one manifest write). With dryRun, only reports what would be removed.
+ */
+export function invalidateEntries(
+  cacheDir: string | CacheStore,
+  namespace: string,
+  filter: InvalidationFilter,
+  options?: { dryRun?: boolean }
+): InvalidationResult {
+  const { key, pattern, tags, olderThan, createdBefore } = filter;
+  if (
+    key === undefined &&
+    pattern === undefined &&
+    !tags?.length &&
+    olderThan === undefined &&
+    createdBefore === undefined
+  ) {
+    throw new Error("invalidateEntries() needs at least one filter criterion");
+  }
 
-  for (const [filePath, entry] of Object.entries(manifest.entries)) {
-    try {
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-      }
-      bytesFreed += entry.size;
-      entriesRemoved++;
-    } catch {
-      // Ignore individual errors
-    }
+  const store = resolveStore(cacheDir);
+  if (!store.hasManifest()) {
+    return { entriesRemoved: 0, bytesFreed: 0, newTotalSize: 0, keys: [] };
   }
 
-  // Reset manifest
-  const newManifest: CacheManifest = {
-    version: manifest.version,
-    totalSize: 0,
-    maxSize: manifest.maxSize,
-    entries: {},
-    lastCleanup: new Date().toISOString(),
+  const regex = typeof pattern === "string" ? new RegExp(pattern) : pattern;
+  const wanted = new Set(tags);
+  const keyPath = key !== undefined ? store.locate(namespace, key) : undefined;
+  const now = Date.now();
+  const cutoff = Math.min(
+    olderThan !== undefined ? now - olderThan : Infinity,
+    createdBefore ? createdBefore.getTime() : Infinity
+  );
+
+  const matches = (entry: ManifestEntry): boolean => {
+    if (entry.namespace !== namespace) return false;
+    if (keyPath !== undefined && entry.filePath !== keyPath) return false;
+    if (regex && !regex.test(entry.key)) return false;
+    if (tags?.length && !entry.tags?.some((tag) => wanted.has(tag))) return false;
+    if (cutoff !== Infinity) {
+      const createdAt = createdAtOf(store, entry);
+      if (createdAt === null || createdAt >= cutoff) return false;
+    }
+    return true;
   };
-  fs.writeFileSync(manifestPath, JSON.stringify(newManifest, null, 2));
-
-  // Try to remove namespace directories
-  try {
-    const dirs = fs.readdirSync(cacheDir);
-    for (const dir of dirs) {
-      const dirPath = path.join(cacheDir, dir);
-      if (fs.statSync(dirPath).isDirectory()) {
-        fs.rmSync(dirPath, { recursive: true, force: true });
+
+  const run = (manifest: CacheManifest): InvalidationResult => {
+    const result: InvalidationResult = {
+      entriesRemoved: 0,
+      bytesFreed: 0,
+      newTotalSize: manifest.totalSize,
+      keys: [],
+    };
+
+    for (const [filePath, entry] of Object.entries(manifest.entries)) {
+      if (!matches(entry)) continue;
+
+      if (!options?.dryRun) {
+        try {
+          store.delete(filePath);
+          delete manifest.entries[filePath];
+          emitCacheEvent({ type: "invalidate", namespace, key: entry.key });
+        } catch (error) {
+          // Skip entries that cannot be deleted
+          emitError("invalidate", error, namespace, entry.key);
+          continue;
+        }
       }
+      result.bytesFreed += entry.size;
+      result.entriesRemoved++;
+      result.keys.push(entry.key);
     }
-  } catch {
-    // Ignore directory cleanup errors
-  }
 
-  return {
-    entriesRemoved,
-    bytesFreed,
-    newTotalSize: 0,
+    if (!options?.dryRun) {
+      manifest.totalSize -= result.bytesFreed;
+      result.newTotalSize = manifest.totalSize;
+    } else {
+      result.newTotalSize -= result.bytesFreed;
+    }
+    return result;
   };
+
+  if (options?.dryRun) {
+    return run(readManifest(store));
+  }
+  return updateManifest(store, run);
 }
 
 /**
- * Clear cache for a specific namespace
+ * Clear entire cache
  */
-export function clearNamespace(cacheDir: string, namespace: string): CleanupResult {
-  const manifestPath = path.join(cacheDir, "manifest.json");
-
-  if (!fs.existsSync(manifestPath)) {
+export function clearAll(cacheDir: string | CacheStore): CleanupResult {
+  const store = resolveStore(cacheDir);
+  if (!store.hasManifest()) {
     return { entriesRemoved: 0, bytesFreed: 0, newTotalSize: 0 };
   }
 
-  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8")) as CacheManifest;
-  let entriesRemoved = 0;
-  let bytesFreed = 0;
+  return withManifestLock(store, () => {
+    const manifest = readManifest(store);
+    let entriesRemoved = 0;
+    let bytesFreed = 0;
 
-  for (const [filePath, entry] of Object.entries(manifest.entries)) {
-    if (entry.namespace === namespace) {
+    for (const [filePath, entry] of Object.entries(manifest.entries)) {
       try {
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
-        }
+        store.delete(filePath);
         bytesFreed += entry.size;
-        delete manifest.entries[filePath];
         entriesRemoved++;
-      } catch {
-        // Ignore individual errors
+        emitCacheEvent({ type: "invalidate", namespace: entry.namespace, key: entry.key });
+      } catch (error) {
+        // Skip entries that cannot be deleted
+        emitError("clear", error, entry.namespace, entry.key);
+      }
+    }
+
+    // Reset manifest (journaled reads refer to removed entries)
+    store.takeJournal();
+    const newManifest: CacheManifest = {
+      version: manifest.version,
+      totalSize: 0,
+      maxSize: manifest.maxSize,
+      entries: {},
+      lastCleanup: new Date().toISOString(),
+    };
+    writeManifest(store, newManifest);
+
+    // Try to remove namespace directories
+    try {
+      for (const namespace of store.namespaces()) {
+        store.removeNamespace(namespace);
       }
+    } catch (error) {
+      // Ignore directory cleanup errors
+      emitError("remove-namespace", error);
     }
+
+    return {
+      entriesRemoved,
+      bytesFreed,
+      newTotalSize: 0,
+    };
+  });
+}
+
+/**
+ * Clear cache for a specific namespace
+ */
+export function clearNamespace(cacheDir: string | CacheStore, namespace: string): CleanupResult {
+  const store = resolveStore(cacheDir);
+  if (!store.hasManifest()) {
+    return { entriesRemoved: 0, bytesFreed: 0, newTotalSize: 0 };
   }
 
-  manifest.totalSize -= bytesFreed;
-  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  return updateManifest(store, (manifest) => {
+    let entriesRemoved = 0;
+    let bytesFreed = 0;
+
+    for (const [filePath, entry] of Object.entries(manifest.entries)) {
+      if (entry.namespace === namespace) {
+        try {
+          store.delete(filePath);
+          bytesFreed += entry.size;
+          delete manifest.entries[filePath];
+          entriesRemoved++;
+          emitCacheEvent({ type: "invalidate", namespace, key: entry.key });
+        } catch (error) {
+          // Skip entries that cannot be deleted
+          emitError("clear", error, namespace, entry.key);
+        }
+      }
+    }
+
+    manifest.totalSize -= bytesFreed;
 
-  // Try to remove namespace directory
-  const namespaceDir = path.join(cacheDir, namespace);
-  try {
-    if (fs.existsSync(namespaceDir)) {
-      fs.rmSync(namespaceDir, { recursive: true, force: true });
+    // Try to remove namespace directory
+    try {
+      store.removeNamespace(namespace);
+    } catch (error) {
+      // Ignore directory cleanup errors
+      emitError("remove-namespace", error, namespace);
     }
-  } catch {
-    // Ignore directory cleanup errors
+
+    return {
+      entriesRemoved,
+      bytesFreed,
+      newTotalSize: manifest.totalSize,
+    };
+  });
+}
+
+/**
+ * Re-encrypt every entry of a namespace from oldKey to newKey, in place.
+ * Afterwards, configure the plugin with the new key.
+ */
+export function rotateEncryptionKey(
+  cacheDir: string | CacheStore,
+  namespace: string,
+  oldKey: EncryptionKey,
+  newKey: EncryptionKey
+): KeyRotationResult {
+  const store = resolveStore(cacheDir);
+  const result: KeyRotationResult = { rotated: 0, skipped: 0, failed: 0 };
+  if (!store.hasManifest()) {
+    return result;
   }
 
-  return {
-    entriesRemoved,
-    bytesFreed,
-    newTotalSize: manifest.totalSize,
-  };
+  return updateManifest(store, (manifest) => {
+    for (const [location, manifestEntry] of Object.entries(manifest.entries)) {
+      if (manifestEntry.namespace !== namespace) continue;
+
+      try {
+        const content = store.read(location);
+        if (content === null) continue;
+
+        const stored = parseEntry(content);
+        if (!stored.cipher || stored.cipher.keyId !== oldKey.id) {
+          result.skipped++;
+          continue;
+        }
+
+        const aad = entryAAD(namespace, stored.key ?? manifestEntry.key);
+        const entry = decodeEntry(stored, { key: oldKey, aad });
+        delete entry.cipher;
+        delete entry.codec;
+        const rotated = encodeEntry(entry, JSON.stringify(entry.data), {
+          codec: stored.codec,
+          threshold: 0,
+          encryption: { key: newKey, aad },
+        });
+
+        store.write(location, rotated);
+        const size = Buffer.byteLength(rotated, "utf-8");
+        manifest.totalSize += size - manifestEntry.size;
+        manifestEntry.size = size;
+        result.rotated++;
+      } catch (error) {
+        result.failed++;
+        emitError("rotate-key", error, namespace, manifestEntry.key);
+      }
+    }
+
+    return result;
+  });
 }
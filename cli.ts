@@ -5,37 +5,113 @@
  * Usage:
  *   npx plugin-cache stats           Show all plugin cache statistics
  *   npx plugin-cache purge-expired   Remove expired entries
+ *   npx plugin-cache cleanup [--policy name]  Evict entries down to the size target
+ *   npx plugin-cache metrics [ns] [--since 2h|ISO]  Show hit ratio and time saved
+ *   npx plugin-cache keys <ns> [--pattern re] [--expired|--stale]  List keys
+ *   npx plugin-cache show <ns> <key> [--data]  Show one entry
+ *   npx plugin-cache search <.path[==value] | text> [--namespace ns]  Search entry data
+ *   npx plugin-cache doctor [--repair]  Check (and fix) manifest/storage consistency
+ *   npx plugin-cache export <ns...> --out FILE  Write namespaces to an NDJSON snapshot
+ *   npx plugin-cache import FILE [--namespace-map a=b] [--refresh-ttl]  Load a snapshot
  *   npx plugin-cache clear-all       Clear entire cache
  *   npx plugin-cache clear <ns>      Clear specific namespace
+ *   npx plugin-cache invalidate <ns> --key K|--pattern RE|--older-than 2h|--created-before ISO [--dry-run]
+ *   npx plugin-cache invalidate-tag <ns> <tag...>  Invalidate tagged entries
+ *   npx plugin-cache rotate-key <ns> --old-key-env|--old-key-file ... --new-key-env|--new-key-file ...
+ *
+ * Every command accepts --json: results are printed as one JSON object
+ * (NDJSON, one object per line, for list output) and errors as
+ * {"error": {...}} on stderr with a non-zero exit code.
  */
 
-import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
-import { CacheManifest, GlobalCacheStats, CacheStats } from "./types";
-import { purgeExpired, clearAll, clearNamespace } from "./cleanup";
+import { GlobalCacheStats, CacheStats, CacheStore, InvalidationFilter } from "./types";
+import {
+  purgeExpired,
+  clearAll,
+  clearNamespace,
+  invalidateByTags,
+  invalidateEntries,
+  performCleanup,
+  rotateEncryptionKey,
+} from "./cleanup";
+import { getEvictionPolicy, hasEvictionPolicy } from "./eviction";
+import { EncryptionKey, EncryptionKeyError, loadEncryptionKey } from "./encryption";
+import { DEFAULT_MAX_SIZE, ManifestVersionError, readManifest } from "./manifest";
+import { withPendingAccesses } from "./journal";
+import { LockTimeoutError } from "./lock";
+import { resolveStore } from "./file-store";
+import { migrateCache } from "./migrations";
+import { hitRatio, readMetrics, timeSavedMs } from "./metrics";
+import { EntryState, inspectEntry, listEntries, searchEntries } from "./inspect";
+import { verifyCache } from "./doctor";
+import { SnapshotFormatError, exportSnapshot, importSnapshot } from "./snapshot";
 
 const DEFAULT_CACHE_DIR = path.join(os.homedir(), ".cache", "plugin-cache");
 const DEFAULT_SWR = 24 * 60 * 60 * 1000; // 24 hours
 
+/** Exit code for failures */
+const EXIT_ERROR = 1;
+/** Exit code for invalid arguments */
+const EXIT_USAGE = 2;
+/** Exit code for a requested entry that does not exist */
+const EXIT_NOT_FOUND = 3;
+
+/** Invalid command-line arguments */
+class UsageError extends Error {
+  constructor(
+    message: string,
+    public readonly usage: string
+  ) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/** A requested entry does not exist */
+class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+/** Error object printed with --json */
+interface CliErrorOutput {
+  error: {
+    /** Stable machine-readable code */
+    code:
+      | "USAGE"
+      | "LOCK_TIMEOUT"
+      | "MANIFEST_VERSION"
+      | "ENCRYPTION_KEY"
+      | "SNAPSHOT_FORMAT"
+      | "NOT_FOUND"
+      | "INTERNAL";
+    message: string;
+    /** Correct usage, for USAGE errors */
+    usage?: string;
+  };
+}
+
 /**
  * Get global cache statistics
  */
-export function getGlobalStats(cacheDir?: string): GlobalCacheStats {
-  const dir = cacheDir || DEFAULT_CACHE_DIR;
-  const manifestPath = path.join(dir, "manifest.json");
+export function getGlobalStats(cacheDir?: string | CacheStore): GlobalCacheStats {
+  const store = resolveStore(cacheDir || DEFAULT_CACHE_DIR);
 
-  if (!fs.existsSync(manifestPath)) {
+  if (!store.hasManifest()) {
     return {
       totalEntries: 0,
       totalSize: 0,
-      maxSize: 500 * 1024 * 1024,
+      maxSize: DEFAULT_MAX_SIZE,
       usagePercent: 0,
       byNamespace: {},
     };
   }
 
-  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8")) as CacheManifest;
+  const manifest = withPendingAccesses(store, readManifest(store));
   const now = new Date();
   const byNamespace: Record<string, CacheStats> = {};
 
@@ -46,6 +122,7 @@ export function getGlobalStats(cacheDir?: string): GlobalCacheStats {
         namespace: entry.namespace,
         entryCount: 0,
         totalSize: 0,
+        logicalSize: 0,
         expiredCount: 0,
         staleCount: 0,
       };
@@ -54,6 +131,7 @@ export function getGlobalStats(cacheDir?: string): GlobalCacheStats {
     const ns = byNamespace[entry.namespace];
     ns.entryCount++;
     ns.totalSize += entry.size;
+    ns.logicalSize = (ns.logicalSize ?? 0) + (entry.logicalSize ?? entry.size);
 
     const expiresAt = new Date(entry.expiresAt);
     const swrExpiresAt = new Date(expiresAt.getTime() + DEFAULT_SWR);
@@ -72,9 +150,21 @@ export function getGlobalStats(cacheDir?: string): GlobalCacheStats {
     }
   }
 
+  for (const [namespace, quota] of Object.entries(manifest.quotas ?? {})) {
+    if (byNamespace[namespace]) {
+      byNamespace[namespace].quota = quota;
+    }
+  }
+  for (const [namespace, metrics] of Object.entries(readMetrics(store))) {
+    if (byNamespace[namespace]) {
+      byNamespace[namespace].metrics = metrics;
+    }
+  }
+
   return {
     totalEntries: Object.keys(manifest.entries).length,
     totalSize: manifest.totalSize,
+    logicalSize: Object.values(byNamespace).reduce((sum, ns) => sum + (ns.logicalSize ?? 0), 0),
     maxSize: manifest.maxSize,
     usagePercent: (manifest.totalSize / manifest.maxSize) * 100,
     byNamespace,
@@ -93,16 +183,158 @@ function formatBytes(bytes: number): string {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
 }
 
+/**
+ * Format a duration in ms to human readable
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  if (ms < 3_600_000) return `${(ms / 60_000).toFixed(1)}m`;
+  return `${(ms / 3_600_000).toFixed(1)}h`;
+}
+
+/**
+ * Parse a duration like "30m", "2h" or "7d" to ms (null if invalid)
+ */
+function parseDuration(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d|w)$/.exec(value.trim());
+  if (!match) return null;
+  const units: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    m: 60_000,
+    h: 3_600_000,
+    d: 86_400_000,
+    w: 604_800_000,
+  };
+  return parseFloat(match[1]) * units[match[2]];
+}
+
+/**
+ * Parse a point in time given as a duration ago ("2h") or an ISO date (null if invalid)
+ */
+function parseSince(value: string): Date | null {
+  const duration = parseDuration(value);
+  if (duration !== null) return new Date(Date.now() - duration);
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Get the value following a --flag argument
+ */
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Get all values of a repeatable --flag (also split on commas)
+ */
+function getFlags(args: string[], name: string): string[] {
+  const values: string[] = [];
+  args.forEach((arg, index) => {
+    if (arg === name && args[index + 1] !== undefined) {
+      values.push(...args[index + 1].split(","));
+    }
+  });
+  return values;
+}
+
+/**
+ * Get the positional arguments after the command (up to the first --flag)
+ */
+function getPositionals(args: string[]): string[] {
+  const end = args.findIndex((arg, index) => index > 0 && arg.startsWith("--"));
+  return args.slice(1, end < 0 ? undefined : end);
+}
+
+/**
+ * Load the decryption key given by --key-env / --key-file, if any
+ */
+function getDecryptionKey(args: string[]): EncryptionKey | undefined {
+  const keyEnv = getFlag(args, "--key-env");
+  const keyFile = getFlag(args, "--key-file");
+  return keyEnv || keyFile ? loadEncryptionKey({ keyEnv, keyFile }) : undefined;
+}
+
+/**
+ * Print a value as a single JSON line (one NDJSON record)
+ */
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value));
+}
+
+/**
+ * Describe an error for --json output
+ */
+function toErrorOutput(error: unknown): CliErrorOutput {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof UsageError) {
+    return { error: { code: "USAGE", message, usage: error.usage } };
+  }
+  if (error instanceof LockTimeoutError) {
+    return { error: { code: "LOCK_TIMEOUT", message } };
+  }
+  if (error instanceof ManifestVersionError) {
+    return { error: { code: "MANIFEST_VERSION", message } };
+  }
+  if (error instanceof EncryptionKeyError) {
+    return { error: { code: "ENCRYPTION_KEY", message } };
+  }
+  if (error instanceof SnapshotFormatError) {
+    return { error: { code: "SNAPSHOT_FORMAT", message } };
+  }
+  if (error instanceof NotFoundError) {
+    return { error: { code: "NOT_FOUND", message } };
+  }
+  return { error: { code: "INTERNAL", message } };
+}
+
+/**
+ * Report a failed command and set the exit code
+ */
+function handleError(error: unknown, json: boolean): void {
+  const output = toErrorOutput(error);
+  if (json) {
+    console.error(JSON.stringify(output));
+  } else {
+    console.error(`Error: ${output.error.message}`);
+    if (output.error.usage) {
+      console.log(`Usage: ${output.error.usage}`);
+    }
+  }
+  process.exitCode = exitCodeFor(error);
+}
+
+/**
+ * Exit code for a failed command
+ */
+function exitCodeFor(error: unknown): number {
+  if (error instanceof UsageError) return EXIT_USAGE;
+  if (error instanceof NotFoundError) return EXIT_NOT_FOUND;
+  return EXIT_ERROR;
+}
+
 /**
  * Main CLI handler
  */
-async function main(): Promise<void> {
-  const args = process.argv.slice(2);
+async function main(args: string[], json: boolean): Promise<void> {
   const command = args[0];
 
+  // Upgrade (or rebuild) the manifest before touching it; doctor has to see
+  // it as it is, and rebuilds it itself (keeping settings) on --repair
+  if (command !== "doctor") {
+    migrateCache(DEFAULT_CACHE_DIR);
+  }
+
   switch (command) {
     case "stats": {
       const stats = getGlobalStats();
+      if (json) {
+        printJson(stats);
+        break;
+      }
       console.log("\n=== Plugin Cache Statistics ===\n");
       console.log(`Total entries: ${stats.totalEntries}`);
       console.log(`Total size: ${formatBytes(stats.totalSize)} / ${formatBytes(stats.maxSize)}`);
@@ -116,8 +348,21 @@ async function main(): Promise<void> {
         for (const [ns, nsStats] of Object.entries(stats.byNamespace)) {
           console.log(`${ns}:`);
           console.log(`  Entries: ${nsStats.entryCount}`);
-          console.log(`  Size: ${formatBytes(nsStats.totalSize)}`);
+          if (nsStats.quota) {
+            const quotaPercent = (nsStats.totalSize / nsStats.quota) * 100;
+            console.log(
+              `  Size: ${formatBytes(nsStats.totalSize)} / ${formatBytes(nsStats.quota)} quota (${quotaPercent.toFixed(1)}%)`
+            );
+          } else {
+            console.log(`  Size: ${formatBytes(nsStats.totalSize)}`);
+          }
+          if (nsStats.logicalSize && nsStats.logicalSize !== nsStats.totalSize) {
+            console.log(`  Uncompressed: ${formatBytes(nsStats.logicalSize)}`);
+          }
           console.log(`  Expired: ${nsStats.expiredCount}, Stale: ${nsStats.staleCount}`);
+          if (nsStats.metrics) {
+            console.log(`  Hit ratio: ${(hitRatio(nsStats.metrics) * 100).toFixed(1)}%`);
+          }
           if (nsStats.oldestEntry) {
             console.log(`  Oldest: ${nsStats.oldestEntry}`);
           }
@@ -130,17 +375,338 @@ async function main(): Promise<void> {
     }
 
     case "purge-expired": {
-      console.log("Purging expired entries...");
+      if (!json) console.log("Purging expired entries...");
       const result = purgeExpired(DEFAULT_CACHE_DIR);
+      if (json) {
+        printJson(result);
+        break;
+      }
+      console.log(`Removed ${result.entriesRemoved} entries`);
+      console.log(`Freed ${formatBytes(result.bytesFreed)}`);
+      console.log(`New total size: ${formatBytes(result.newTotalSize)}`);
+      break;
+    }
+
+    case "cleanup": {
+      const policy = getFlag(args, "--policy");
+      if (args.includes("--policy") && (!policy || !hasEvictionPolicy(policy))) {
+        throw new UsageError(
+          `Unknown eviction policy "${policy ?? ""}"`,
+          "npx plugin-cache cleanup [--policy lru|lfu|expired-first|cost-aware]"
+        );
+      }
+      const store = resolveStore(DEFAULT_CACHE_DIR);
+      const saved = store.hasManifest() ? readManifest(store).evictionPolicy : undefined;
+      const name = getEvictionPolicy(policy ?? saved).name;
+      if (!json) console.log(`Running cleanup (${name})...`);
+      const result = performCleanup(store, undefined, { policy });
+      if (json) {
+        printJson({ policy: name, ...result });
+        break;
+      }
       console.log(`Removed ${result.entriesRemoved} entries`);
       console.log(`Freed ${formatBytes(result.bytesFreed)}`);
       console.log(`New total size: ${formatBytes(result.newTotalSize)}`);
       break;
     }
 
+    case "metrics": {
+      const namespace = args[1] && !args[1].startsWith("--") ? args[1] : undefined;
+      const sinceArg = getFlag(args, "--since");
+      const since = sinceArg ? parseSince(sinceArg) : undefined;
+      if (since === null || (args.includes("--since") && !sinceArg)) {
+        throw new UsageError(
+          `Invalid --since value "${sinceArg ?? ""}"`,
+          "npx plugin-cache metrics [namespace] [--since 2h|7d|ISO date]"
+        );
+      }
+
+      const metrics = readMetrics(resolveStore(DEFAULT_CACHE_DIR), { namespace, since });
+      if (json) {
+        // One record per namespace
+        for (const [ns, m] of Object.entries(metrics).sort(([a], [b]) => a.localeCompare(b))) {
+          printJson({
+            namespace: ns,
+            ...(since && { since: since.toISOString() }),
+            ...m,
+            hitRatio: hitRatio(m),
+            timeSavedMs: timeSavedMs(m),
+          });
+        }
+        break;
+      }
+      console.log(`\n=== Plugin Cache Metrics${since ? ` (since ${since.toISOString()})` : ""} ===\n`);
+
+      const namespaces = Object.keys(metrics).sort();
+      if (namespaces.length === 0) {
+        console.log("No metrics recorded.");
+        break;
+      }
+
+      for (const ns of namespaces) {
+        const m = metrics[ns];
+        console.log(`${ns}:`);
+        console.log(`  Hit ratio: ${(hitRatio(m) * 100).toFixed(1)}%`);
+        console.log(
+          `  Hits: ${m.hits}, Stale: ${m.staleHits}, Misses: ${m.misses}, ` +
+            `Bypasses: ${m.bypasses}, Evictions: ${m.evictions}, Rejected: ${m.rejections}`
+        );
+        if (m.fetches > 0 || m.revalidations > 0) {
+          console.log(
+            `  Refetched: ${m.fetches}, Revalidated (not modified): ${m.revalidations}`
+          );
+        }
+        if (m.fetches > 0) {
+          console.log(`  Avg fetch: ${formatDuration(m.fetchMs / m.fetches)} (${m.fetches} fetches)`);
+          console.log(`  Time saved: ~${formatDuration(timeSavedMs(m))}`);
+        }
+
+        const prefixes = Object.entries(m.byPrefix).sort(
+          ([, a], [, b]) => b.hits + b.staleHits + b.misses - (a.hits + a.staleHits + a.misses)
+        );
+        if (prefixes.length > 1) {
+          console.log("  By key prefix:");
+          for (const [prefix, p] of prefixes.slice(0, 10)) {
+            const saved = p.fetches > 0 ? `, saved ~${formatDuration(timeSavedMs(p))}` : "";
+            console.log(
+              `    ${prefix}: ${(hitRatio(p) * 100).toFixed(1)}% hits ` +
+                `(${p.hits + p.staleHits}/${p.hits + p.staleHits + p.misses})${saved}`
+            );
+          }
+        }
+        console.log("");
+      }
+      break;
+    }
+
+    case "keys": {
+      const namespace = args[1];
+      if (!namespace || namespace.startsWith("--")) {
+        throw new UsageError(
+          "Please specify a namespace",
+          "npx plugin-cache keys <namespace> [--pattern REGEX] [--expired | --stale]"
+        );
+      }
+      const state: EntryState | undefined = args.includes("--expired")
+        ? "expired"
+        : args.includes("--stale")
+          ? "stale"
+          : undefined;
+      let pattern: RegExp | undefined;
+      const patternArg = getFlag(args, "--pattern");
+      if (patternArg !== undefined) {
+        try {
+          pattern = new RegExp(patternArg);
+        } catch {
+          throw new UsageError(
+            `Invalid --pattern "${patternArg}"`,
+            "npx plugin-cache keys <namespace> [--pattern REGEX] [--expired | --stale]"
+          );
+        }
+      }
+
+      const entries = listEntries(DEFAULT_CACHE_DIR, namespace, { pattern, state });
+      if (json) {
+        entries.forEach((entry) => printJson(entry));
+        break;
+      }
+      for (const entry of entries) {
+        const marker =
+          (entry.state === "fresh" ? "" : ` [${entry.state}]`) +
+          (entry.negative ? " [failure]" : "");
+        console.log(`${entry.key}  ${formatBytes(entry.size)}  expires ${entry.expiresAt}${marker}`);
+      }
+      if (entries.length === 0) {
+        console.log("No matching keys.");
+      }
+      break;
+    }
+
+    case "show": {
+      const namespace = args[1];
+      const key = args[2];
+      if (!namespace || !key || namespace.startsWith("--") || key.startsWith("--")) {
+        throw new UsageError(
+          "Please specify a namespace and a key",
+          "npx plugin-cache show <namespace> <key> [--data] [--key-env VAR | --key-file PATH]"
+        );
+      }
+      const details = inspectEntry(DEFAULT_CACHE_DIR, namespace, key, {
+        encryptionKey: getDecryptionKey(args),
+      });
+      if (!details) {
+        throw new NotFoundError(`No entry for "${key}" in ${namespace}`);
+      }
+      if (json) {
+        const { data, ...meta } = details;
+        printJson(args.includes("--data") ? details : meta);
+        break;
+      }
+
+      console.log(`Namespace: ${details.namespace}`);
+      console.log(`Key: ${details.key}`);
+      console.log(`State: ${details.state}`);
+      if (details.createdAt) {
+        console.log(`Created: ${details.createdAt} (${formatDuration(details.ageMs ?? 0)} ago)`);
+      }
+      const ttl =
+        details.ttlRemainingMs >= 0
+          ? `${formatDuration(details.ttlRemainingMs)} left`
+          : `expired ${formatDuration(-details.ttlRemainingMs)} ago`;
+      console.log(`Expires: ${details.expiresAt} (${ttl})`);
+      console.log(`Last accessed: ${details.lastAccessedAt}`);
+      const codec = details.codec ? `, ${details.codec}` : "";
+      const logical =
+        details.logicalSize !== undefined ? `, ${formatBytes(details.logicalSize)} data` : "";
+      console.log(`Size: ${formatBytes(details.size)} stored${logical}${codec}`);
+      if (details.etag) console.log(`ETag: ${details.etag}`);
+      if (details.lastModified) console.log(`Last-Modified: ${details.lastModified}`);
+      if (details.version) console.log(`Version: ${details.version}`);
+      if (details.tags) console.log(`Tags: ${details.tags.join(", ")}`);
+      if (details.encryptedWith) console.log(`Encrypted with key: ${details.encryptedWith}`);
+      if (details.error) {
+        console.log(`Remembered failure: ${details.error.name}: ${details.error.message}`);
+      } else if (args.includes("--data")) {
+        console.log("");
+        console.log(
+          details.dataError
+            ? `(data unavailable: ${details.dataError})`
+            : JSON.stringify(details.data, null, 2)
+        );
+      }
+      break;
+    }
+
+    case "search": {
+      const query = args[1];
+      if (!query || query.startsWith("--")) {
+        throw new UsageError(
+          "Please specify a path (.items[].id==42) or text to search for",
+          "npx plugin-cache search <.path[==value] | text> [--namespace NS] [--text] " +
+            "[--key-env VAR | --key-file PATH]"
+        );
+      }
+      const result = searchEntries(DEFAULT_CACHE_DIR, query, {
+        namespace: getFlag(args, "--namespace"),
+        text: args.includes("--text"),
+        encryptionKey: getDecryptionKey(args),
+      });
+      if (json) {
+        result.matches.forEach((match) => printJson(match));
+        break;
+      }
+      const textQuery = args.includes("--text") || !query.startsWith(".");
+      for (const match of result.matches) {
+        const value = textQuery ? match.value : JSON.stringify(match.value);
+        console.log(`${match.namespace}  ${match.key}  ${value}`);
+      }
+      console.log(`${result.matches.length} matches`);
+      if (result.skipped > 0) {
+        console.log(`Skipped ${result.skipped} unreadable or encrypted entries`);
+      }
+      break;
+    }
+
+    case "doctor": {
+      const repair = args.includes("--repair");
+      const result = verifyCache(DEFAULT_CACHE_DIR, { repair });
+      // Unrepaired issues fail the command so scripts can react
+      if (!result.ok && !result.repaired) {
+        process.exitCode = EXIT_ERROR;
+      }
+      if (json) {
+        printJson(result);
+        break;
+      }
+
+      for (const issue of result.issues) {
+        const subject = issue.key ?? issue.location ?? issue.namespace;
+        console.log(`[${issue.type}] ${subject ? `${subject}: ` : ""}${issue.message}`);
+      }
+      if (result.ok) {
+        console.log("No issues found.");
+      } else if (result.repaired) {
+        console.log(`\nRepaired ${result.issues.length} issues`);
+        console.log(`Manifest: ${result.entryCount} entries, ${formatBytes(result.totalSize)}`);
+      } else {
+        console.log(`\nFound ${result.issues.length} issues; run with --repair to fix them`);
+      }
+      break;
+    }
+
+    case "export": {
+      const namespaces = getPositionals(args);
+      const out = getFlag(args, "--out");
+      if (namespaces.length === 0 || !out) {
+        throw new UsageError(
+          "Please specify at least one namespace and an output file",
+          "npx plugin-cache export <namespace...> --out FILE [--key-env VAR | --key-file PATH]"
+        );
+      }
+      const result = exportSnapshot(DEFAULT_CACHE_DIR, out, {
+        namespaces,
+        encryptionKey: getDecryptionKey(args),
+      });
+      if (json) {
+        printJson({ file: out, ...result });
+        break;
+      }
+      console.log(`Exported ${result.exported} entries from ${result.namespaces.join(", ") || "-"}`);
+      if (result.skipped > 0) {
+        console.log(`Skipped ${result.skipped} unreadable or encrypted entries`);
+      }
+      console.log(`Snapshot written to ${out}`);
+      break;
+    }
+
+    case "import": {
+      const usage =
+        "npx plugin-cache import FILE [--namespace-map from=to] [--refresh-ttl] " +
+        "[--key-env VAR | --key-file PATH]";
+      const file = args[1];
+      if (!file || file.startsWith("--")) {
+        throw new UsageError("Please specify a snapshot file", usage);
+      }
+      const namespaceMap: Record<string, string> = {};
+      for (const mapping of getFlags(args, "--namespace-map")) {
+        const [from, to] = mapping.split("=");
+        if (!from || !to) {
+          throw new UsageError(`Invalid --namespace-map "${mapping}"`, usage);
+        }
+        namespaceMap[from] = to;
+      }
+      const keyEnv = getFlag(args, "--key-env");
+      const keyFile = getFlag(args, "--key-file");
+
+      const result = await importSnapshot(DEFAULT_CACHE_DIR, file, {
+        namespaceMap,
+        refreshTtl: args.includes("--refresh-ttl"),
+        config: keyEnv || keyFile ? { encryption: { keyEnv, keyFile } } : undefined,
+      });
+      if (json) {
+        printJson({ file, ...result });
+        break;
+      }
+      for (const [namespace, count] of Object.entries(result.byNamespace)) {
+        console.log(`${namespace}: ${count} entries`);
+      }
+      console.log(`Imported ${result.imported} entries`);
+      if (result.skipped > 0) {
+        console.log(`Skipped ${result.skipped} entries rejected by the cache (e.g. too large)`);
+      }
+      if (result.expired > 0) {
+        console.log(`Skipped ${result.expired} expired entries (use --refresh-ttl to keep them)`);
+      }
+      break;
+    }
+
     case "clear-all": {
-      console.log("Clearing all cache...");
+      if (!json) console.log("Clearing all cache...");
       const result = clearAll(DEFAULT_CACHE_DIR);
+      if (json) {
+        printJson(result);
+        break;
+      }
       console.log(`Removed ${result.entriesRemoved} entries`);
       console.log(`Freed ${formatBytes(result.bytesFreed)}`);
       break;
@@ -149,38 +715,195 @@ async function main(): Promise<void> {
     case "clear": {
       const namespace = args[1];
       if (!namespace) {
-        console.error("Error: Please specify a namespace to clear");
-        console.log("Usage: npx plugin-cache clear <namespace>");
-        process.exit(1);
+        throw new UsageError(
+          "Please specify a namespace to clear",
+          "npx plugin-cache clear <namespace>"
+        );
       }
-      console.log(`Clearing cache for ${namespace}...`);
+      if (!json) console.log(`Clearing cache for ${namespace}...`);
       const result = clearNamespace(DEFAULT_CACHE_DIR, namespace);
+      if (json) {
+        printJson({ namespace, ...result });
+        break;
+      }
+      console.log(`Removed ${result.entriesRemoved} entries`);
+      console.log(`Freed ${formatBytes(result.bytesFreed)}`);
+      break;
+    }
+
+    case "invalidate": {
+      const usage =
+        "npx plugin-cache invalidate <namespace> (--key KEY | --pattern REGEX | " +
+        "--older-than 2h | --created-before ISO) [--dry-run]";
+      const namespace = args[1];
+      if (!namespace || namespace.startsWith("--")) {
+        throw new UsageError("Please specify a namespace", usage);
+      }
+
+      const filter: InvalidationFilter = {};
+      const key = getFlag(args, "--key");
+      const pattern = getFlag(args, "--pattern");
+      const olderThan = getFlag(args, "--older-than");
+      const createdBefore = getFlag(args, "--created-before");
+      if (key !== undefined) filter.key = key;
+      if (pattern !== undefined) {
+        try {
+          filter.pattern = new RegExp(pattern);
+        } catch {
+          throw new UsageError(`Invalid --pattern "${pattern}"`, usage);
+        }
+      }
+      if (olderThan !== undefined) {
+        const ms = parseDuration(olderThan);
+        if (ms === null) throw new UsageError(`Invalid --older-than "${olderThan}"`, usage);
+        filter.olderThan = ms;
+      }
+      if (createdBefore !== undefined) {
+        const date = new Date(createdBefore);
+        if (isNaN(date.getTime())) {
+          throw new UsageError(`Invalid --created-before "${createdBefore}"`, usage);
+        }
+        filter.createdBefore = date;
+      }
+      if (Object.keys(filter).length === 0) {
+        throw new UsageError("Please specify which entries to invalidate", usage);
+      }
+
+      const dryRun = args.includes("--dry-run");
+      const result = invalidateEntries(DEFAULT_CACHE_DIR, namespace, filter, { dryRun });
+      if (json) {
+        printJson({ namespace, dryRun, ...result });
+        break;
+      }
+      for (const removed of result.keys) {
+        console.log(`${dryRun ? "Would remove" : "Removed"} ${removed}`);
+      }
+      console.log(`${dryRun ? "Would remove" : "Removed"} ${result.entriesRemoved} entries`);
+      console.log(`${dryRun ? "Would free" : "Freed"} ${formatBytes(result.bytesFreed)}`);
+      break;
+    }
+
+    case "invalidate-tag": {
+      const namespace = args[1];
+      const tags = args.slice(2);
+      if (!namespace || tags.length === 0) {
+        throw new UsageError(
+          "Please specify a namespace and at least one tag",
+          "npx plugin-cache invalidate-tag <namespace> <tag...>"
+        );
+      }
+      if (!json) console.log(`Invalidating ${tags.join(", ")} in ${namespace}...`);
+      const result = invalidateByTags(DEFAULT_CACHE_DIR, namespace, tags);
+      if (json) {
+        printJson({ namespace, tags, ...result });
+        break;
+      }
       console.log(`Removed ${result.entriesRemoved} entries`);
       console.log(`Freed ${formatBytes(result.bytesFreed)}`);
       break;
     }
 
+    case "rotate-key": {
+      const namespace = args[1];
+      const oldConfig = {
+        keyEnv: getFlag(args, "--old-key-env"),
+        keyFile: getFlag(args, "--old-key-file"),
+      };
+      const newConfig = {
+        keyEnv: getFlag(args, "--new-key-env"),
+        keyFile: getFlag(args, "--new-key-file"),
+      };
+      if (
+        !namespace ||
+        namespace.startsWith("--") ||
+        !(oldConfig.keyEnv || oldConfig.keyFile) ||
+        !(newConfig.keyEnv || newConfig.keyFile)
+      ) {
+        throw new UsageError(
+          "Please specify a namespace, the old key and the new key",
+          "npx plugin-cache rotate-key <namespace> " +
+            "(--old-key-env VAR | --old-key-file PATH) (--new-key-env VAR | --new-key-file PATH)"
+        );
+      }
+      const oldKey = loadEncryptionKey(oldConfig);
+      const newKey = loadEncryptionKey(newConfig);
+      if (!json) {
+        console.log(`Rotating encryption key for ${namespace} (${oldKey.id} -> ${newKey.id})...`);
+      }
+      const result = rotateEncryptionKey(DEFAULT_CACHE_DIR, namespace, oldKey, newKey);
+      if (json) {
+        printJson({ namespace, oldKeyId: oldKey.id, newKeyId: newKey.id, ...result });
+        break;
+      }
+      console.log(`Re-encrypted ${result.rotated} entries`);
+      if (result.skipped > 0) {
+        console.log(`Skipped ${result.skipped} entries not encrypted with the old key`);
+      }
+      if (result.failed > 0) {
+        console.log(`Failed to decrypt ${result.failed} entries`);
+      }
+      break;
+    }
+
+    case undefined:
     case "help":
     case "--help":
-    case "-h":
-    default: {
+    case "-h": {
       console.log(`
 Plugin Cache CLI - Global cache management
 
 Usage:
   npx plugin-cache stats           Show all plugin cache statistics
   npx plugin-cache purge-expired   Remove expired entries (past SWR window)
+  npx plugin-cache cleanup [--policy lru|lfu|expired-first|cost-aware]
+                                   Evict entries from over-quota namespaces and
+                                   down to 70% of the max size
+  npx plugin-cache metrics [ns] [--since 2h|7d|ISO date]
+                                   Show hit ratio, latency and time saved
+  npx plugin-cache keys <ns> [--pattern REGEX] [--expired | --stale]
+                                   List keys in a namespace
+  npx plugin-cache show <ns> <key> [--data] [--key-env VAR | --key-file PATH]
+                                   Show an entry's metadata (and data)
+  npx plugin-cache search <.path[==value] | text> [--namespace NS] [--text]
+                                   Search entry data by jq-like path or text
+  npx plugin-cache doctor [--repair]
+                                   Check the manifest against the files on disk
+                                   (and rebuild it from disk with --repair)
+  npx plugin-cache export <ns...> --out FILE [--key-env VAR | --key-file PATH]
+                                   Write namespaces to an NDJSON snapshot
+  npx plugin-cache import FILE [--namespace-map from=to] [--refresh-ttl]
+                                   Load a snapshot through the normal write path
   npx plugin-cache clear-all       Clear entire cache
   npx plugin-cache clear <ns>      Clear cache for specific plugin namespace
+  npx plugin-cache invalidate <ns> (--key KEY | --pattern REGEX | --older-than 2h |
+                                   --created-before ISO) [--dry-run]
+                                   Invalidate matching entries (criteria combine)
+  npx plugin-cache invalidate-tag <ns> <tag...>
+                                   Invalidate entries with any of the tags
+  npx plugin-cache rotate-key <ns> (--old-key-env VAR | --old-key-file PATH)
+                                   (--new-key-env VAR | --new-key-file PATH)
+                                   Re-encrypt a namespace with a new key
+
+Options:
+  --json    Print results as JSON (one object per line for lists) and
+            errors as {"error": {"code", "message"}} on stderr
 
 Cache location: ${DEFAULT_CACHE_DIR}
 `);
       break;
     }
+
+    default:
+      throw new UsageError(`Unknown command "${command}"`, "npx plugin-cache help");
   }
 }
 
 // Run CLI if executed directly
 if (require.main === module) {
-  main().catch(console.error);
+  const argv = process.argv.slice(2);
+  const json = argv.includes("--json");
+  main(
+    argv.filter((arg) => arg !== "--json"),
+    json
+  ).catch((error) => handleError(error, json));
 }
@@ -0,0 +1,124 @@
+/**
+ * Entry Codec - Serialization of stored entries
+ * Small entries store data inline; large ones can be compressed and/or
+ * encrypted into a base64 payload
+ */
+
+import * as zlib from "zlib";
+import { CacheEntry, CompressionCodec } from "./types";
+import { EncryptionKey, decryptPayload, encryptPayload } from "./encryption";
+
+/** Default size above which entries are compressed (64KB) */
+export const DEFAULT_COMPRESSION_THRESHOLD = 64 * 1024;
+
+/** Entry as written to storage: data inline, or encoded in payload */
+export type StoredCacheEntry = Omit<CacheEntry, "data"> & {
+  data?: unknown;
+  /** Base64 of the encoded data (when codec or cipher is set) */
+  payload?: string;
+};
+
+/** Encryption settings for one entry */
+export interface EntryEncryption {
+  key: EncryptionKey;
+  /** Additional authenticated data (see entryAAD) */
+  aad: string;
+}
+
+/** Settings for encodeEntry() */
+export interface EncodeOptions {
+  /** Compression codec (none if unset) */
+  codec?: CompressionCodec;
+  /** Compress only when the serialized data is larger than this many bytes */
+  threshold: number;
+  /** Encrypt the payload */
+  encryption?: EntryEncryption;
+}
+
+function compress(codec: CompressionCodec, input: Buffer): Buffer {
+  return codec === "brotli" ? zlib.brotliCompressSync(input) : zlib.gzipSync(input);
+}
+
+function decompress(codec: CompressionCodec, input: Buffer): Buffer {
+  return codec === "brotli" ? zlib.brotliDecompressSync(input) : zlib.gunzipSync(input);
+}
+
+/**
+ * Serialize an entry for storage.
+ * serialized is JSON.stringify(entry.data), already computed by the caller.
+ * Sets entry.codec / entry.cipher when the data was compressed / encrypted.
+ */
+export function encodeEntry<T>(
+  entry: CacheEntry<T>,
+  serialized: string,
+  options: EncodeOptions
+): string {
+  let body: Buffer | null = null;
+
+  if (options.codec && entry.size > options.threshold) {
+    const compressed = compress(options.codec, Buffer.from(serialized, "utf-8"));
+    // Only worth it if it actually saves space after base64
+    if (Math.ceil(compressed.length / 3) * 4 < entry.size) {
+      entry.codec = options.codec;
+      body = compressed;
+    }
+  }
+
+  if (options.encryption) {
+    const plaintext = body ?? Buffer.from(serialized, "utf-8");
+    const { cipher, ciphertext } = encryptPayload(
+      options.encryption.key,
+      plaintext,
+      options.encryption.aad
+    );
+    entry.cipher = cipher;
+    body = ciphertext;
+  }
+
+  if (!body) {
+    return JSON.stringify(entry);
+  }
+
+  const { data, ...meta } = entry;
+  const stored: StoredCacheEntry = { ...meta, payload: body.toString("base64") };
+  return JSON.stringify(stored);
+}
+
+/**
+ * Parse a stored entry without decoding its data
+ */
+export function parseEntry(content: string): StoredCacheEntry {
+  return JSON.parse(content) as StoredCacheEntry;
+}
+
+/**
+ * Decode a stored entry's data (decrypting and decompressing if needed).
+ * When encryption is given, plaintext entries are rejected.
+ * Throws if the entry cannot be decoded.
+ */
+export function decodeEntry<T>(
+  stored: StoredCacheEntry,
+  encryption?: EntryEncryption
+): CacheEntry<T> {
+  const { payload, ...meta } = stored;
+
+  if (encryption && !stored.cipher) {
+    throw new Error("Entry is not encrypted");
+  }
+  if (payload === undefined) {
+    return meta as CacheEntry<T>;
+  }
+
+  let body: Buffer = Buffer.from(payload, "base64");
+  if (stored.cipher) {
+    if (!encryption) {
+      throw new Error("Entry is encrypted but no key is configured");
+    }
+    body = decryptPayload(encryption.key, stored.cipher, body, encryption.aad);
+  }
+  if (stored.codec) {
+    body = decompress(stored.codec, body);
+  }
+
+  return { ...meta, data: JSON.parse(body.toString("utf-8")) as T };
+}
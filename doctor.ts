@@ -0,0 +1,170 @@
+/**
+ * Cache Doctor - Consistency check between the manifest and storage
+ * Finds orphan, missing, mis-sized and unparsable entries, empty namespace
+ * directories and leftover temp files, and can repair them by rebuilding
+ * the manifest from storage
+ */
+
+import { CacheIssue, CacheManifest, CacheStore, VerifyResult } from "./types";
+import { resolveStore } from "./file-store";
+import { loadManifest, rebuildManifest, writeManifest } from "./manifest";
+import { parseEntry } from "./codec";
+import { compactJournal } from "./journal";
+
+/** Issues that are fixed by rebuilding the manifest */
+const MANIFEST_ISSUES = new Set<CacheIssue["type"]>([
+  "corrupt-manifest",
+  "orphan-file",
+  "missing-file",
+  "size-mismatch",
+  "total-size-drift",
+  "unparsable-entry",
+]);
+
+/**
+ * Check whether stored content is a readable cache entry
+ */
+function isParsable(content: string): boolean {
+  try {
+    const entry = parseEntry(content);
+    return !!entry && typeof entry === "object" && typeof entry.expiresAt === "string";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rebuild the manifest from storage, keeping settings and usage statistics
+ * that cannot be recovered from the entry files (reads are only recorded in
+ * the manifest and the access journal, which is folded in)
+ */
+function rebuildKeepingSettings(store: CacheStore, previous: CacheManifest): CacheManifest {
+  const manifest = rebuildManifest(store);
+  manifest.maxSize = previous.maxSize || manifest.maxSize;
+  if (previous.quotas) manifest.quotas = previous.quotas;
+  if (previous.evictionPolicy) manifest.evictionPolicy = previous.evictionPolicy;
+  if (previous.lastCleanup) manifest.lastCleanup = previous.lastCleanup;
+
+  for (const [location, entry] of Object.entries(manifest.entries)) {
+    const old = previous.entries[location];
+    if (!old) continue;
+    if (old.accessCount !== undefined) entry.accessCount = old.accessCount;
+    if (old.fetchMs !== undefined) entry.fetchMs = old.fetchMs;
+    if (old.lastAccessedAt > entry.lastAccessedAt) entry.lastAccessedAt = old.lastAccessedAt;
+  }
+
+  compactJournal(store, manifest);
+  return manifest;
+}
+
+/**
+ * Verify that the manifest matches storage, optionally repairing it.
+ * Runs under the manifest lock, so concurrent writers are not reported.
+ */
+export function verifyCache(
+  cacheDir: string | CacheStore,
+  options?: { repair?: boolean }
+): VerifyResult {
+  const store = resolveStore(cacheDir);
+
+  return store.lock(() => {
+    const issues: CacheIssue[] = [];
+
+    const tempFiles = store.listTempFiles();
+    for (const location of tempFiles) {
+      issues.push({ type: "temp-file", location, message: "Leftover file from an interrupted write" });
+    }
+
+    const hadManifest = store.hasManifest();
+    const { manifest, rebuilt } = loadManifest(store);
+    if (rebuilt) {
+      issues.push({ type: "corrupt-manifest", message: "Manifest is unreadable" });
+    }
+
+    const stored = store.list();
+    const storedByLocation = new Map(stored.map((entry) => [entry.location, entry]));
+    const unparsable: string[] = [];
+
+    for (const file of stored) {
+      const content = store.read(file.location);
+      if (content === null) continue;
+      const entry = manifest.entries[file.location];
+
+      if (!isParsable(content)) {
+        unparsable.push(file.location);
+        issues.push({
+          type: "unparsable-entry",
+          location: file.location,
+          namespace: file.namespace,
+          message: "Entry file is not a valid cache entry",
+        });
+      } else if (!entry) {
+        issues.push({
+          type: "orphan-file",
+          location: file.location,
+          namespace: file.namespace,
+          key: parseEntry(content).key,
+          message: "File is not in the manifest",
+        });
+      } else if (entry.size !== file.size) {
+        issues.push({
+          type: "size-mismatch",
+          location: file.location,
+          namespace: entry.namespace,
+          key: entry.key,
+          message: `Manifest says ${entry.size} bytes, file has ${file.size}`,
+        });
+      }
+    }
+
+    let entriesSize = 0;
+    for (const [location, entry] of Object.entries(manifest.entries)) {
+      entriesSize += entry.size;
+      if (!storedByLocation.has(location)) {
+        issues.push({
+          type: "missing-file",
+          location,
+          namespace: entry.namespace,
+          key: entry.key,
+          message: "Manifest entry has no file",
+        });
+      }
+    }
+
+    if (hadManifest && !rebuilt && entriesSize !== manifest.totalSize) {
+      issues.push({
+        type: "total-size-drift",
+        message: `Manifest totalSize is ${manifest.totalSize}, entries add up to ${entriesSize}`,
+      });
+    }
+
+    const usedNamespaces = new Set(stored.map((entry) => entry.namespace));
+    const emptyNamespaces = store.namespaces().filter((ns) => !usedNamespaces.has(ns));
+    for (const namespace of emptyNamespaces) {
+      issues.push({ type: "empty-namespace", namespace, message: "Namespace has no entries" });
+    }
+
+    let result = manifest;
+    const repair = !!options?.repair && issues.length > 0;
+    if (repair) {
+      for (const location of [...tempFiles, ...unparsable]) {
+        store.delete(location);
+      }
+      for (const namespace of emptyNamespaces) {
+        store.removeNamespace(namespace);
+      }
+      if (issues.some((issue) => MANIFEST_ISSUES.has(issue.type))) {
+        result = rebuildKeepingSettings(store, manifest);
+        writeManifest(store, result);
+      }
+    }
+
+    return {
+      ok: issues.length === 0,
+      issues,
+      repaired: repair,
+      entryCount: Object.keys(result.entries).length,
+      totalSize: result.totalSize,
+    };
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Cache Encryption - AES-256-GCM encryption at rest for entry payloads
+ * Keys come from an environment variable or a key file (32 bytes, hex or base64)
+ */
+
+import * as fs from "fs";
+import * as crypto from "crypto";
+import { EncryptionConfig, EntryCipher } from "./types";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/** A loaded encryption key */
+export interface EncryptionKey {
+  /** Raw 32-byte key */
+  key: Buffer;
+  /** Short fingerprint stored with entries to detect a wrong key */
+  id: string;
+}
+
+/** Thrown when an encryption key is missing or malformed */
+export class EncryptionKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EncryptionKeyError";
+  }
+}
+
+/**
+ * Parse a key given as 64 hex characters or base64 of 32 bytes
+ */
+export function parseEncryptionKey(raw: string): EncryptionKey {
+  const text = raw.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(text)
+    ? Buffer.from(text, "hex")
+    : Buffer.from(text, "base64");
+
+  if (key.length !== KEY_LENGTH) {
+    throw new EncryptionKeyError(
+      `Encryption key must be ${KEY_LENGTH} bytes (64 hex chars or base64), got ${key.length} bytes`
+    );
+  }
+
+  const id = crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return { key, id };
+}
+
+/**
+ * Load the key described by an encryption config (env var first, then key file)
+ */
+export function loadEncryptionKey(config: EncryptionConfig): EncryptionKey {
+  if (config.keyEnv) {
+    const value = process.env[config.keyEnv];
+    if (value) {
+      return parseEncryptionKey(value);
+    }
+    if (!config.keyFile) {
+      throw new EncryptionKeyError(`Encryption key env var ${config.keyEnv} is not set`);
+    }
+  }
+
+  if (config.keyFile) {
+    let value: string;
+    try {
+      value = fs.readFileSync(config.keyFile, "utf-8");
+    } catch (error) {
+      throw new EncryptionKeyError(
+        `Cannot read encryption key file ${config.keyFile}: ${(error as Error).message}`
+      );
+    }
+    return parseEncryptionKey(value);
+  }
+
+  throw new EncryptionKeyError("Encryption config needs keyEnv or keyFile");
+}
+
+/**
+ * Additional authenticated data binding a payload to its namespace and key,
+ * so an encrypted file cannot be swapped in for another entry
+ */
+export function entryAAD(namespace: string, key: string): string {
+  return `${namespace}\0${key}`;
+}
+
+/**
+ * Encrypt a payload
+ */
+export function encryptPayload(
+  key: EncryptionKey,
+  plaintext: Buffer,
+  aad: string
+): { cipher: EntryCipher; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key.key, iv, { authTagLength: TAG_LENGTH });
+  cipher.setAAD(Buffer.from(aad, "utf-8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return {
+    cipher: {
+      alg: ALGORITHM,
+      keyId: key.id,
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+    },
+    ciphertext,
+  };
+}
+
+/**
+ * Decrypt a payload (throws on wrong key or tampering)
+ */
+export function decryptPayload(
+  key: EncryptionKey,
+  info: EntryCipher,
+  ciphertext: Buffer,
+  aad: string
+): Buffer {
+  if (info.keyId !== key.id) {
+    throw new Error(`Entry was encrypted with key ${info.keyId}, not ${key.id}`);
+  }
+  // A fixed tag length rejects truncated tags instead of checking fewer bytes
+  const decipher = crypto.createDecipheriv(ALGORITHM, key.key, Buffer.from(info.iv, "base64"), {
+    authTagLength: TAG_LENGTH,
+  });
+  decipher.setAAD(Buffer.from(aad, "utf-8"));
+  decipher.setAuthTag(Buffer.from(info.tag, "base64"));
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
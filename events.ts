@@ -0,0 +1,128 @@
+/**
+ * Cache Events - Typed events from PluginCache and the cleanup functions
+ * Subscribe with onCacheEvent() (every cache in this process) or
+ * PluginCache.on() (one namespace). PLUGIN_CACHE_DEBUG=namespace,... ("*" for
+ * all) logs events to stderr with timings.
+ */
+
+/** Event payloads by event type */
+export interface CacheEventMap {
+  /** Fresh entry served */
+  hit: { namespace: string; key: string; durationMs: number };
+  /** Stale entry served (past TTL within the SWR window, or due for early refresh) */
+  stale: { namespace: string; key: string; durationMs: number };
+  /** Key not cached, expired or rejected */
+  miss: { namespace: string; key: string; durationMs: number };
+  /** Entry written (size is the stored size in bytes) */
+  set: { namespace: string; key: string; size: number; ttl: number; durationMs: number };
+  /** Entry not written because it exceeds maxEntrySize */
+  "skip-oversize": { namespace: string; key: string; size: number; maxSize: number };
+  /** Entry removed by invalidation or clearing */
+  invalidate: { namespace: string; key: string };
+  /** Entry removed by cleanup: over a size limit, or expired */
+  evict: {
+    namespace: string;
+    key: string;
+    size: number;
+    reason: "size" | "expired";
+    policy?: string;
+  };
+  /** Exception that was handled without failing the operation */
+  error: { namespace?: string; key?: string; operation: string; error: unknown };
+}
+
+/** Event type names */
+export type CacheEventType = keyof CacheEventMap;
+
+/** An event of one type (or any type) */
+export type CacheEvent<K extends CacheEventType = CacheEventType> = {
+  [P in K]: { type: P } & CacheEventMap[P];
+}[K];
+
+/** Listener for events of one type (or any type) */
+export type CacheEventListener<K extends CacheEventType = CacheEventType> = (
+  event: CacheEvent<K>
+) => void;
+
+const listeners = new Map<CacheEventType | "*", Set<CacheEventListener>>();
+
+// PLUGIN_CACHE_DEBUG is re-parsed only when it changes
+let debugSetting: string | undefined;
+let debugNamespaces = new Set<string>();
+
+/**
+ * Subscribe to events of a type ("*" for all) from every cache and cleanup
+ * function in this process; returns an unsubscribe function
+ */
+export function onCacheEvent<K extends CacheEventType>(
+  type: K | "*",
+  listener: CacheEventListener<K>
+): () => void {
+  // Listeners are filed under their type ("*": every type), so only events of type K reach this one
+  const deliver: CacheEventListener = (event) => listener(event as CacheEvent<K>);
+
+  let subscribed = listeners.get(type);
+  if (!subscribed) {
+    subscribed = new Set();
+    listeners.set(type, subscribed);
+  }
+  subscribed.add(deliver);
+  return () => {
+    subscribed!.delete(deliver);
+  };
+}
+
+/**
+ * Deliver an event to its listeners and the debug log
+ */
+export function emitCacheEvent(event: CacheEvent): void {
+  if (isDebugEnabled(event.namespace)) {
+    console.error(formatEvent(event));
+  }
+
+  for (const subscribed of [listeners.get(event.type), listeners.get("*")]) {
+    if (!subscribed) continue;
+    for (const listener of [...subscribed]) {
+      try {
+        listener(event);
+      } catch {
+        // A failing listener must not break the cache operation
+      }
+    }
+  }
+}
+
+/**
+ * Whether PLUGIN_CACHE_DEBUG asks for a namespace's events
+ */
+function isDebugEnabled(namespace?: string): boolean {
+  const setting = process.env.PLUGIN_CACHE_DEBUG;
+  if (!setting) return false;
+
+  if (setting !== debugSetting) {
+    debugSetting = setting;
+    debugNamespaces = new Set(
+      setting
+        .split(",")
+        .map((ns) => ns.trim())
+        .filter(Boolean)
+    );
+  }
+  return debugNamespaces.has("*") || (namespace !== undefined && debugNamespaces.has(namespace));
+}
+
+/**
+ * One debug line: [cache:namespace] type "key" details (duration): error
+ */
+function formatEvent(event: CacheEvent): string {
+  const { type, namespace, key, durationMs, error, ...details } = event as Record<string, unknown>;
+
+  let line = `[cache:${namespace ?? "*"}] ${type}`;
+  if (key !== undefined) line += ` ${JSON.stringify(key)}`;
+  for (const [name, value] of Object.entries(details)) {
+    if (value !== undefined) line += ` ${name}=${value}`;
+  }
+  if (typeof durationMs === "number") line += ` (${durationMs.toFixed(1)}ms)`;
+  if (error !== undefined) line += `: ${error instanceof Error ? error.message : String(error)}`;
+  return line;
+}
@@ -0,0 +1,95 @@
+/**
+ * Eviction Policies - Which entries cleanup removes first
+ * Each policy scores entries; the lowest score is evicted first
+ */
+
+import { ManifestEntry } from "./types";
+
+/** Fetch cost assumed for entries without a recorded fetch time */
+const DEFAULT_FETCH_MS = 100;
+
+/** Strategy for choosing eviction victims */
+export interface EvictionPolicy {
+  /** Name stored in the manifest */
+  readonly name: string;
+  /** Lower scores are evicted first */
+  score(entry: ManifestEntry, now: number): number;
+}
+
+function lastAccessed(entry: ManifestEntry): number {
+  return new Date(entry.lastAccessedAt).getTime() || 0;
+}
+
+/** Least recently used first */
+const lru: EvictionPolicy = {
+  name: "lru",
+  score: (entry) => lastAccessed(entry),
+};
+
+/** Least frequently used first */
+const lfu: EvictionPolicy = {
+  name: "lfu",
+  score: (entry) => entry.accessCount ?? 0,
+};
+
+/** Already-expired entries first (soonest expired first), then LRU */
+const expiredFirst: EvictionPolicy = {
+  name: "expired-first",
+  score: (entry, now) => {
+    const expiresAt = new Date(entry.expiresAt).getTime() || 0;
+    // Offset keeps every expired entry ahead of every live one
+    return expiresAt <= now ? expiresAt - now * 2 : lastAccessed(entry);
+  },
+};
+
+/**
+ * Cheapest to rebuild per byte first: recorded fetch time divided by size,
+ * decayed by time since last access so idle expensive entries still go eventually
+ */
+const costAware: EvictionPolicy = {
+  name: "cost-aware",
+  score: (entry, now) => {
+    const cost = entry.fetchMs ?? DEFAULT_FETCH_MS;
+    const idleHours = Math.max(0, now - lastAccessed(entry)) / 3_600_000;
+    return cost / Math.max(entry.size, 1) / (1 + idleHours);
+  },
+};
+
+const policies = new Map<string, EvictionPolicy>(
+  [lru, lfu, expiredFirst, costAware].map((p) => [p.name, p])
+);
+
+/**
+ * Register a custom eviction policy (available in this process)
+ */
+export function registerEvictionPolicy(policy: EvictionPolicy): void {
+  policies.set(policy.name, policy);
+}
+
+/**
+ * Look up a policy by name (unknown names fall back to LRU)
+ */
+export function getEvictionPolicy(name?: string): EvictionPolicy {
+  return (name && policies.get(name)) || lru;
+}
+
+/**
+ * Whether a policy with this name is registered
+ */
+export function hasEvictionPolicy(name: string): boolean {
+  return policies.has(name);
+}
+
+/**
+ * Order entries for eviction under a policy (ties broken by LRU)
+ */
+export function orderForEviction(
+  entries: ManifestEntry[],
+  policy: EvictionPolicy,
+  now: number = Date.now()
+): ManifestEntry[] {
+  return entries
+    .map((entry) => ({ entry, score: policy.score(entry, now) }))
+    .sort((a, b) => a.score - b.score || lastAccessed(a.entry) - lastAccessed(b.entry))
+    .map(({ entry }) => entry);
+}
@@ -0,0 +1,256 @@
+/**
+ * File Store - JSON files on disk (the default storage backend)
+ *
+ * Layout:
+ *   <cacheDir>/manifest.json          Global manifest
+ *   <cacheDir>/manifest.json.lock     Cross-process manifest lock
+ *   <cacheDir>/metrics.json           Usage metrics (hits, misses, fetch times)
+ *   <cacheDir>/metrics.journal        Metrics saved since metrics.json was compacted
+ *   <cacheDir>/access.journal         Append-only log of reads (see journal.ts)
+ *   <cacheDir>/*.json.tmp.<pid>       Staging files for atomic writes
+ *   <cacheDir>/*.journal.<pid>        Journal being compacted
+ *   <cacheDir>/<namespace>/<file>.json  One file per entry
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { CacheStore, StoredEntry } from "./types";
+import { keyToFileName } from "./filename";
+import { withLock } from "./lock";
+
+const MANIFEST_FILE = "manifest.json";
+const METRICS_FILE = "metrics.json";
+const METRICS_JOURNAL_FILE = "metrics.journal";
+const JOURNAL_FILE = "access.journal";
+/** Staging files and journals being compacted, named with the writer's pid */
+const TEMP_FILE = /^((manifest|metrics)\.json\.tmp|(access|metrics)\.journal)\.\d+$/;
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+export class FileStore implements CacheStore {
+  readonly location: string;
+  private manifestPath: string;
+  private metricsPath: string;
+  private metricsJournalPath: string;
+  private journalPath: string;
+
+  constructor(cacheDir: string) {
+    this.location = cacheDir;
+    this.manifestPath = path.join(cacheDir, MANIFEST_FILE);
+    this.metricsPath = path.join(cacheDir, METRICS_FILE);
+    this.metricsJournalPath = path.join(cacheDir, METRICS_JOURNAL_FILE);
+    this.journalPath = path.join(cacheDir, JOURNAL_FILE);
+  }
+
+  locate(namespace: string, key: string): string {
+    return path.join(this.location, namespace, keyToFileName(key));
+  }
+
+  read(location: string): string | null {
+    try {
+      return fs.readFileSync(location, "utf-8");
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  write(location: string, content: string): void {
+    const dir = path.dirname(location);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(location, content);
+  }
+
+  delete(location: string): boolean {
+    try {
+      fs.unlinkSync(location);
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  exists(location: string): boolean {
+    return fs.existsSync(location);
+  }
+
+  list(namespace?: string): StoredEntry[] {
+    const result: StoredEntry[] = [];
+    const namespaces = namespace ? [namespace] : this.namespaces();
+
+    for (const ns of namespaces) {
+      const dir = path.join(this.location, ns);
+      let files: string[];
+      try {
+        files = fs.readdirSync(dir);
+      } catch {
+        continue;
+      }
+
+      for (const file of files) {
+        if (!file.endsWith(".json")) continue;
+        const location = path.join(dir, file);
+        try {
+          const stat = fs.statSync(location);
+          if (stat.isFile()) {
+            result.push({ namespace: ns, location, size: stat.size });
+          }
+        } catch {
+          // File removed while listing
+        }
+      }
+    }
+
+    return result;
+  }
+
+  namespaces(): string[] {
+    if (!fs.existsSync(this.location)) return [];
+    return fs.readdirSync(this.location).filter((name) => {
+      try {
+        return fs.statSync(path.join(this.location, name)).isDirectory();
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  removeNamespace(namespace: string): void {
+    fs.rmSync(path.join(this.location, namespace), { recursive: true, force: true });
+  }
+
+  hasManifest(): boolean {
+    return fs.existsSync(this.manifestPath);
+  }
+
+  readManifest(): string | null {
+    return this.read(this.manifestPath);
+  }
+
+  writeManifest(content: string): void {
+    this.writeAtomic(this.manifestPath, content);
+  }
+
+  readMetrics(): string | null {
+    return this.read(this.metricsPath);
+  }
+
+  writeMetrics(content: string): void {
+    this.writeAtomic(this.metricsPath, content);
+  }
+
+  appendMetrics(lines: string): void {
+    this.appendTo(this.metricsJournalPath, lines);
+  }
+
+  metricsJournalSize(): number {
+    return this.sizeOf(this.metricsJournalPath);
+  }
+
+  readMetricsJournal(): string | null {
+    return this.read(this.metricsJournalPath);
+  }
+
+  takeMetricsJournal(): string | null {
+    return this.take(this.metricsJournalPath);
+  }
+
+  appendJournal(lines: string): void {
+    this.appendTo(this.journalPath, lines);
+  }
+
+  journalSize(): number {
+    return this.sizeOf(this.journalPath);
+  }
+
+  readJournal(): string | null {
+    return this.read(this.journalPath);
+  }
+
+  takeJournal(): string | null {
+    return this.take(this.journalPath);
+  }
+
+  listTempFiles(): string[] {
+    if (!fs.existsSync(this.location)) return [];
+    return fs
+      .readdirSync(this.location)
+      .filter((name) => TEMP_FILE.test(name))
+      .map((name) => path.join(this.location, name));
+  }
+
+  lock<T>(fn: () => T): T {
+    if (!fs.existsSync(this.location)) {
+      fs.mkdirSync(this.location, { recursive: true });
+    }
+    return withLock(`${this.manifestPath}.lock`, fn);
+  }
+
+  private appendTo(journalPath: string, lines: string): void {
+    try {
+      // Appends of a few lines are atomic with O_APPEND, so no lock is needed
+      fs.appendFileSync(journalPath, lines);
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+      fs.mkdirSync(this.location, { recursive: true });
+      fs.appendFileSync(journalPath, lines);
+    }
+  }
+
+  private sizeOf(journalPath: string): number {
+    try {
+      return fs.statSync(journalPath).size;
+    } catch (error) {
+      if (isNotFound(error)) return 0;
+      throw error;
+    }
+  }
+
+  private take(journalPath: string): string | null {
+    // Move it aside first so appends from other processes go to a new journal
+    const draining = `${journalPath}.${process.pid}`;
+    try {
+      fs.renameSync(journalPath, draining);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+    try {
+      return fs.readFileSync(draining, "utf-8");
+    } finally {
+      fs.rmSync(draining, { force: true });
+    }
+  }
+
+  private writeAtomic(filePath: string, content: string): void {
+    // Atomic write: write to temp file, then rename
+    // This prevents corruption if the process crashes mid-write
+    const tempPath = `${filePath}.tmp.${process.pid}`;
+    try {
+      fs.writeFileSync(tempPath, content);
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      // Clean up temp file on error
+      try {
+        if (fs.existsSync(tempPath)) {
+          fs.unlinkSync(tempPath);
+        }
+      } catch {
+        // Ignore cleanup errors
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Resolve a cache directory or store to a store
+ */
+export function resolveStore(target: string | CacheStore): CacheStore {
+  return typeof target === "string" ? new FileStore(target) : target;
+}
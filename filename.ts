@@ -0,0 +1,29 @@
+/**
+ * Cache Filenames - Key to filename mapping
+ * Readable prefix plus a hash of the full key, so distinct keys never share a file
+ */
+
+import * as crypto from "crypto";
+
+const PREFIX_LENGTH = 48;
+const HASH_LENGTH = 16;
+
+/**
+ * Sanitize a key for use in a filename (lossy)
+ */
+function sanitizeKey(key: string): string {
+  return key.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * Map a cache key to its entry filename
+ *
+ * @example
+ * keyToFileName("orders?page=1") // "orders_page_1-eb4ef3d167e1db00.json"
+ */
+export function keyToFileName(key: string): string {
+  const prefix = sanitizeKey(key).slice(0, PREFIX_LENGTH);
+  const hash = crypto.createHash("sha256").update(key).digest("hex").slice(0, HASH_LENGTH);
+  return `${prefix}-${hash}.json`;
+}
+
@@ -0,0 +1,254 @@
+/**
+ * HTTP Caching - fetch() through a PluginCache
+ * Responses are stored with their ETag/Last-Modified and revalidated with
+ * conditional requests; a 304 Not Modified extends the entry's TTL without
+ * rewriting its data. Freshness follows the response's Cache-Control
+ * (max-age, no-store, no-cache, stale-while-revalidate), and request headers
+ * named by Vary become part of the key.
+ */
+
+import { PluginCache } from "./cache";
+import { CacheControl, CacheEntry } from "./types";
+import {
+  buildConditionalHeaders,
+  extractValidator,
+  isNotModified,
+  parseCacheControl,
+} from "./validation";
+
+/** How long expired responses are kept so they can be revalidated with a 304 */
+const REVALIDATION_WINDOW = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/** Options for cachedHttpFetch(): fetch() options plus cache settings */
+export interface CachedHttpFetchInit<T = unknown> extends RequestInit {
+  /** fetch implementation (default: the global fetch) */
+  fetch?: typeof fetch;
+  /** Read the body of a successful response (default: response.json()) */
+  parse?: (response: Response) => Promise<T>;
+  /** TTL in ms for responses without max-age (default: the cache's TTL) */
+  ttl?: number;
+  /** Cache key (default: "http:" + url) */
+  cacheKey?: string;
+}
+
+/** Result of cachedHttpFetch() */
+export interface CachedHttpResponse<T> {
+  data: T;
+  /** "cache": no request made, "revalidated": 304 Not Modified, "network": new response */
+  source: "cache" | "revalidated" | "network";
+  /** Stale data was served while revalidating in the background */
+  stale: boolean;
+}
+
+/** Thrown for responses that are neither successful nor 304 Not Modified */
+export class HttpStatusError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly url: string
+  ) {
+    super(`Request to ${url} failed with status ${status}`);
+    this.name = "HttpStatusError";
+  }
+}
+
+/** Stored response */
+interface ResponseRecord<T> {
+  body: T;
+  /** stale-while-revalidate window in seconds */
+  swr?: number;
+}
+
+/** Stored at the base key when responses vary by request headers */
+interface VaryRecord {
+  vary: string[];
+}
+
+/** Everything a (re)validating request needs */
+interface RequestContext<T> {
+  cache: PluginCache;
+  url: string;
+  request: RequestInit;
+  headers: Headers;
+  fetchImpl: typeof fetch;
+  parse: (response: Response) => Promise<T>;
+  ttl?: number;
+  baseKey: string;
+  key: string;
+}
+
+function isResponseRecord<T>(data: unknown): data is ResponseRecord<T> {
+  return typeof data === "object" && data !== null && "body" in data;
+}
+
+function isVaryRecord(data: unknown): data is VaryRecord {
+  return typeof data === "object" && data !== null && Array.isArray((data as VaryRecord).vary);
+}
+
+/**
+ * Header names listed in a response's Vary header (lowercased)
+ */
+function varyNames(headers: Headers): string[] {
+  const vary = headers.get("vary");
+  if (!vary) return [];
+  return [...new Set(vary.split(",").map((name) => name.trim().toLowerCase()).filter(Boolean))].sort();
+}
+
+/**
+ * Key for one variant of a response
+ */
+function variantKey(baseKey: string, names: string[], headers: Headers): string {
+  const values = names.map((name) => `${name}=${encodeURIComponent(headers.get(name) ?? "")}`);
+  return `${baseKey}|${values.join("&")}`;
+}
+
+/**
+ * TTL in ms from Cache-Control and Age (undefined: use the default)
+ */
+function freshnessTtl(control: CacheControl, headers: Headers, fallback?: number): number | undefined {
+  if (control.noCache) return 0;
+  if (control.maxAge === undefined) return fallback;
+  const age = Number(headers.get("age")) || 0;
+  return Math.max(0, control.maxAge - age) * 1000;
+}
+
+async function readBody<T>(
+  response: Response,
+  url: string,
+  parse: (response: Response) => Promise<T>
+): Promise<T> {
+  if (!response.ok) {
+    throw new HttpStatusError(response.status, url);
+  }
+  return parse(response);
+}
+
+/**
+ * Request a URL, conditionally when there is a stored response, and store
+ * the result according to its Cache-Control and Vary headers
+ */
+async function revalidate<T>(
+  context: RequestContext<T>,
+  entry?: CacheEntry<ResponseRecord<T>>
+): Promise<CachedHttpResponse<T>> {
+  const { cache, url } = context;
+  const headers = new Headers(context.headers);
+  if (entry) {
+    const conditional = buildConditionalHeaders({
+      ...(entry.etag && { etag: entry.etag }),
+      ...(entry.lastModified && { lastModified: entry.lastModified }),
+    });
+    for (const [name, value] of Object.entries(conditional)) {
+      headers.set(name, value);
+    }
+  }
+
+  const response = await context.fetchImpl(url, { ...context.request, headers });
+  const control = parseCacheControl(response.headers.get("cache-control"));
+
+  if (entry && isNotModified(response.status)) {
+    if (control.noStore) {
+      cache.invalidate(context.key);
+    } else {
+      const ttl = freshnessTtl(control, response.headers, context.ttl);
+      cache.extendTTL(context.key, ttl, extractValidator(response.headers));
+    }
+    return { data: entry.data.body, source: "revalidated", stale: false };
+  }
+
+  const data = await readBody(response, url, context.parse);
+  const vary = varyNames(response.headers);
+
+  if (control.noStore || vary.includes("*")) {
+    cache.invalidate(context.key);
+    return { data, source: "network", stale: false };
+  }
+
+  let key = context.baseKey;
+  if (vary.length > 0) {
+    key = variantKey(context.baseKey, vary, context.headers);
+    await cache.set<VaryRecord>(context.baseKey, { vary }, { ttl: REVALIDATION_WINDOW });
+  }
+
+  const record: ResponseRecord<T> = {
+    body: data,
+    ...(!control.noCache && control.staleWhileRevalidate && { swr: control.staleWhileRevalidate }),
+  };
+  await cache.set(key, record, {
+    ttl: freshnessTtl(control, response.headers, context.ttl),
+    ...extractValidator(response.headers),
+  });
+
+  return { data, source: "network", stale: false };
+}
+
+/**
+ * fetch() a URL through a cache.
+ * Fresh responses are served without a request; stale ones are revalidated
+ * with If-None-Match/If-Modified-Since, in the background while within the
+ * response's stale-while-revalidate window. Only GET requests are cached,
+ * and a request with "Cache-Control: no-store" skips the cache.
+ * Throws HttpStatusError for unsuccessful responses.
+ */
+export async function cachedHttpFetch<T = unknown>(
+  cache: PluginCache,
+  url: string,
+  init: CachedHttpFetchInit<T> = {}
+): Promise<CachedHttpResponse<T>> {
+  const {
+    fetch: fetchImpl = globalThis.fetch,
+    parse = (response: Response) => response.json() as Promise<T>,
+    ttl,
+    cacheKey,
+    ...request
+  } = init;
+  const headers = new Headers(request.headers);
+  const requestControl = parseCacheControl(headers.get("cache-control"));
+  const method = (request.method ?? "GET").toUpperCase();
+
+  if (method !== "GET" || requestControl.noStore || cache.isDisabled()) {
+    const response = await fetchImpl(url, request);
+    return { data: await readBody(response, url, parse), source: "network", stale: false };
+  }
+
+  // Expired responses are looked up too: they can still be revalidated
+  const lookup = { staleWhileRevalidate: REVALIDATION_WINDOW };
+  const baseKey = cacheKey ?? `http:${url}`;
+  let key = baseKey;
+  let cached = cache.get<ResponseRecord<T> | VaryRecord>(baseKey, lookup);
+  if (cached.entry && isVaryRecord(cached.entry.data)) {
+    key = variantKey(baseKey, cached.entry.data.vary, headers);
+    cached = cache.get<ResponseRecord<T>>(key, lookup);
+  }
+
+  const entry =
+    cached.entry && !cached.entry.error && isResponseRecord<T>(cached.entry.data)
+      ? (cached.entry as CacheEntry<ResponseRecord<T>>)
+      : undefined;
+  const context: RequestContext<T> = {
+    cache,
+    url,
+    request,
+    headers,
+    fetchImpl,
+    parse,
+    ttl,
+    baseKey,
+    key,
+  };
+
+  if (entry && cached.hit && !requestControl.noCache) {
+    if (!cached.stale) {
+      return { data: entry.data.body, source: "cache", stale: false };
+    }
+    const swr = (entry.data.swr ?? 0) * 1000;
+    if (Date.now() <= new Date(entry.expiresAt).getTime() + swr) {
+      // Failed background revalidations keep the stale copy
+      cache
+        .shareRequest(key, () => revalidate(context, entry))
+        .catch((error) => cache.reportError("refresh", error, key));
+      return { data: entry.data.body, source: "cache", stale: true };
+    }
+  }
+
+  return cache.shareRequest(key, () => revalidate(context, entry));
+}
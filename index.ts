@@ -45,22 +45,44 @@ export const TTL = {
 } as const;
 
 // Core cache class
-export { PluginCache } from "./cache";
+export { CachedFetchError, FetchTimeoutError, PluginCache } from "./cache";
+
+// Storage backends
+export { FileStore } from "./file-store";
+export { MemoryStore } from "./memory-store";
 
 // Types
 export type {
+  BatchEntry,
+  BatchFetcher,
   CacheConfig,
+  CacheControl,
   CacheEntry,
+  CacheIssue,
+  CacheIssueType,
   CacheManifest,
   CacheResult,
   CacheStats,
+  CacheStore,
   CacheValidator,
+  CachedError,
+  CleanupOptions,
   CleanupResult,
+  CompressionCodec,
+  EncryptionConfig,
+  EntryCipher,
   GetOptions,
   GetOrFetchOptions,
   GlobalCacheStats,
+  InvalidationFilter,
+  InvalidationResult,
+  KeyRotationResult,
   ManifestEntry,
+  MetricCounters,
+  NamespaceMetrics,
   SetOptions,
+  StoredEntry,
+  VerifyResult,
 } from "./types";
 
 // Cleanup functions
@@ -68,19 +90,85 @@ export {
   cleanupIfNeeded,
   clearAll,
   clearNamespace,
+  getNamespaceUsage,
+  invalidateByTags,
+  invalidateEntries,
   performCleanup,
   purgeExpired,
+  rotateEncryptionKey,
 } from "./cleanup";
 
+// Eviction policies
+export {
+  getEvictionPolicy,
+  hasEvictionPolicy,
+  orderForEviction,
+  registerEvictionPolicy,
+} from "./eviction";
+export type { EvictionPolicy } from "./eviction";
+
+// Snapshots
+export { SnapshotFormatError, exportSnapshot, importSnapshot, readSnapshot } from "./snapshot";
+export type {
+  ExportSnapshotOptions,
+  ExportSnapshotResult,
+  ImportSnapshotOptions,
+  ImportSnapshotResult,
+  SnapshotEntry,
+  SnapshotHeader,
+} from "./snapshot";
+
+// Consistency check
+export { verifyCache } from "./doctor";
+
+// Entry inspection
+export { entryState, inspectEntry, listEntries, searchEntries } from "./inspect";
+export type {
+  EntryDetails,
+  EntryState,
+  EntrySummary,
+  InspectOptions,
+  ListEntriesOptions,
+  SearchMatch,
+  SearchResult,
+} from "./inspect";
+
+// Events
+export { onCacheEvent } from "./events";
+export type { CacheEvent, CacheEventListener, CacheEventMap, CacheEventType } from "./events";
+
+// Metrics
+export { hitRatio, keyPrefix, readMetrics, timeSavedMs } from "./metrics";
+
+// Encryption
+export { EncryptionKeyError, loadEncryptionKey, parseEncryptionKey } from "./encryption";
+export type { EncryptionKey } from "./encryption";
+
+// Manifest schema and migrations
+export { MANIFEST_VERSION, ManifestVersionError, rebuildManifest } from "./manifest";
+export { MANIFEST_MIGRATIONS, migrateCache, migrateManifest } from "./migrations";
+export type { ManifestMigration } from "./migrations";
+
+// Locking
+export { LockTimeoutError } from "./lock";
+export type { LockOptions } from "./lock";
+
 // Validation helpers
 export {
   buildConditionalHeaders,
   conditionalFetch,
   createCacheKey,
   extractValidator,
+  NotModified,
   isNotModified,
+  parseCacheControl,
   parseCacheKey,
 } from "./validation";
+export type { RevalidationResult } from "./validation";
+
+// HTTP caching
+export { HttpStatusError, cachedHttpFetch } from "./http";
+export type { CachedHttpFetchInit, CachedHttpResponse } from "./http";
 
 // Global stats helper
 export { getGlobalStats } from "./cli";
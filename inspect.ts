@@ -0,0 +1,336 @@
+/**
+ * Cache Inspection - Read-only browsing of stored entries
+ * Lists, shows and searches entries using the manifest and the stored
+ * CacheEntry files; nothing is modified (not even access times)
+ */
+
+import { CacheStore, CachedError, ManifestEntry } from "./types";
+import { resolveStore } from "./file-store";
+import { readManifest } from "./manifest";
+import { withPendingAccesses } from "./journal";
+import { StoredCacheEntry, decodeEntry, parseEntry } from "./codec";
+import { EncryptionKey, entryAAD } from "./encryption";
+
+const DEFAULT_SWR = 24 * 60 * 60 * 1000; // 24 hours
+/** Characters of context shown around a text match */
+const SNIPPET_CONTEXT = 40;
+
+/** Freshness of an entry: within TTL, within the SWR window, or past both */
+export type EntryState = "fresh" | "stale" | "expired";
+
+/** One entry as listed from the manifest */
+export interface EntrySummary {
+  namespace: string;
+  key: string;
+  state: EntryState;
+  /** Stored (on-disk) size in bytes */
+  size: number;
+  /** Size of the data before compression */
+  logicalSize?: number;
+  lastAccessedAt: string;
+  expiresAt: string;
+  tags?: string[];
+  /** Remembered fetch failure (negative caching) rather than data */
+  negative?: boolean;
+}
+
+/** Options for listEntries() */
+export interface ListEntriesOptions {
+  /** Only keys matching this regular expression */
+  pattern?: string | RegExp;
+  /** Only entries in this state */
+  state?: EntryState;
+  /** SWR window used to tell stale from expired (default: 24 hours) */
+  staleWhileRevalidate?: number;
+}
+
+/** Full details of one stored entry */
+export interface EntryDetails extends EntrySummary {
+  createdAt?: string;
+  /** Time since the entry was written, in ms */
+  ageMs?: number;
+  /** Time until expiry in ms (negative once expired) */
+  ttlRemainingMs: number;
+  etag?: string;
+  lastModified?: string;
+  version?: string;
+  codec?: string;
+  /** Id of the key the entry is encrypted with */
+  encryptedWith?: string;
+  /** Remembered fetch failure; negative entries have no data */
+  error?: CachedError;
+  /** Decoded data (when it could be decoded) */
+  data?: unknown;
+  /** Why the data could not be decoded */
+  dataError?: string;
+}
+
+/** Options for inspectEntry() and searchEntries() */
+export interface InspectOptions {
+  /** Key for decrypting encrypted entries */
+  encryptionKey?: EncryptionKey;
+  /** SWR window used to tell stale from expired (default: 24 hours) */
+  staleWhileRevalidate?: number;
+}
+
+/** One search hit */
+export interface SearchMatch {
+  namespace: string;
+  key: string;
+  /** Value at the path (path queries) or text around the match (text queries) */
+  value: unknown;
+}
+
+/** Result of searchEntries() */
+export interface SearchResult {
+  matches: SearchMatch[];
+  /** Entries whose data could not be read or decrypted */
+  skipped: number;
+}
+
+/**
+ * Classify an entry by its expiry time
+ */
+export function entryState(
+  expiresAt: string,
+  staleWhileRevalidate: number = DEFAULT_SWR,
+  now: number = Date.now()
+): EntryState {
+  const expires = new Date(expiresAt).getTime();
+  if (now <= expires) return "fresh";
+  return now <= expires + staleWhileRevalidate ? "stale" : "expired";
+}
+
+function summarize(entry: ManifestEntry, swr: number, now: number): EntrySummary {
+  return {
+    namespace: entry.namespace,
+    key: entry.key,
+    state: entryState(entry.expiresAt, swr, now),
+    size: entry.size,
+    ...(entry.logicalSize !== undefined && { logicalSize: entry.logicalSize }),
+    lastAccessedAt: entry.lastAccessedAt,
+    expiresAt: entry.expiresAt,
+    ...(entry.tags && { tags: entry.tags }),
+    ...(entry.negative && { negative: true }),
+  };
+}
+
+/**
+ * List a namespace's entries from the manifest, sorted by key
+ */
+export function listEntries(
+  cacheDir: string | CacheStore,
+  namespace: string,
+  options?: ListEntriesOptions
+): EntrySummary[] {
+  const store = resolveStore(cacheDir);
+  if (!store.hasManifest()) return [];
+
+  const regex =
+    typeof options?.pattern === "string" ? new RegExp(options.pattern) : options?.pattern;
+  const swr = options?.staleWhileRevalidate ?? DEFAULT_SWR;
+  const now = Date.now();
+
+  return Object.values(withPendingAccesses(store, readManifest(store)).entries)
+    .filter((entry) => entry.namespace === namespace && (!regex || regex.test(entry.key)))
+    .map((entry) => summarize(entry, swr, now))
+    .filter((summary) => !options?.state || summary.state === options.state)
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Decode a stored entry's data, decrypting only entries that are encrypted
+ */
+function decodeData(
+  stored: StoredCacheEntry,
+  namespace: string,
+  key: string,
+  encryptionKey?: EncryptionKey
+): unknown {
+  const encryption =
+    stored.cipher && encryptionKey
+      ? { key: encryptionKey, aad: entryAAD(namespace, key) }
+      : undefined;
+  return decodeEntry(stored, encryption).data;
+}
+
+/**
+ * Show one entry's metadata and data (null if the key is not cached)
+ */
+export function inspectEntry(
+  cacheDir: string | CacheStore,
+  namespace: string,
+  key: string,
+  options?: InspectOptions
+): EntryDetails | null {
+  const store = resolveStore(cacheDir);
+  const location = store.locate(namespace, key);
+  const content = store.read(location);
+  if (content === null) return null;
+
+  const stored = parseEntry(content);
+  if (stored.key !== undefined && stored.key !== key) return null;
+
+  const now = Date.now();
+  const manifestEntry = store.hasManifest()
+    ? withPendingAccesses(store, readManifest(store)).entries[location]
+    : undefined;
+  const details: EntryDetails = {
+    namespace,
+    key,
+    state: entryState(stored.expiresAt, options?.staleWhileRevalidate ?? DEFAULT_SWR, now),
+    size: manifestEntry?.size ?? Buffer.byteLength(content, "utf-8"),
+    ...(stored.size !== undefined && { logicalSize: stored.size }),
+    // Reads are tracked in the manifest; the file keeps the time it was written
+    lastAccessedAt: manifestEntry?.lastAccessedAt ?? stored.lastAccessedAt,
+    expiresAt: stored.expiresAt,
+    ...(stored.tags && { tags: stored.tags }),
+    ...(stored.error && { negative: true }),
+    ...(stored.createdAt && {
+      createdAt: stored.createdAt,
+      ageMs: now - new Date(stored.createdAt).getTime(),
+    }),
+    ttlRemainingMs: new Date(stored.expiresAt).getTime() - now,
+    ...(stored.etag && { etag: stored.etag }),
+    ...(stored.lastModified && { lastModified: stored.lastModified }),
+    ...(stored.version && { version: stored.version }),
+    ...(stored.codec && { codec: stored.codec }),
+    ...(stored.cipher && { encryptedWith: stored.cipher.keyId }),
+  };
+
+  if (stored.error) {
+    details.error = stored.error;
+    return details;
+  }
+  try {
+    details.data = decodeData(stored, namespace, key, options?.encryptionKey);
+  } catch (error) {
+    details.dataError = (error as Error).message;
+  }
+
+  return details;
+}
+
+/**
+ * Split a jq-like path (".items[0].name", ".items[].id") into steps;
+ * "[]" steps iterate over every array element
+ */
+function parsePath(path: string): (string | number | null)[] | null {
+  if (path === ".") return [];
+
+  const steps: (string | number | null)[] = [];
+  const token = /\.([A-Za-z_$][\w$-]*)|\[(\d*)\]|\["([^"]*)"\]/y;
+  let index = 0;
+
+  while (index < path.length) {
+    token.lastIndex = index;
+    const match = token.exec(path);
+    if (!match) return null;
+    if (match[1] !== undefined) steps.push(match[1]);
+    else if (match[2] !== undefined) steps.push(match[2] === "" ? null : Number(match[2]));
+    else steps.push(match[3]);
+    index = token.lastIndex;
+  }
+
+  return steps.length > 0 ? steps : null;
+}
+
+/**
+ * Collect every value a parsed path resolves to
+ */
+function resolvePath(value: unknown, steps: (string | number | null)[]): unknown[] {
+  if (steps.length === 0) return value === undefined ? [] : [value];
+  if (value === null || typeof value !== "object") return [];
+
+  const [step, ...rest] = steps;
+  if (step === null) {
+    return Array.isArray(value) ? value.flatMap((item) => resolvePath(item, rest)) : [];
+  }
+  return resolvePath((value as Record<string | number, unknown>)[step], rest);
+}
+
+/**
+ * Build a matcher for a query: ".path" (path has a value), ".path==value"
+ * (a value at the path equals value, compared as JSON when it parses) or
+ * plain text (case-insensitive substring of the key or the JSON data)
+ */
+function compileQuery(query: string, text: boolean): (key: string, data: unknown) => unknown[] {
+  const [pathPart, ...expectedParts] = query.split("==");
+  const steps = !text && query.startsWith(".") ? parsePath(pathPart.trim()) : null;
+
+  if (steps) {
+    if (expectedParts.length === 0) {
+      return (_key, data) => resolvePath(data, steps).filter((v) => v !== null);
+    }
+    const raw = expectedParts.join("==").trim();
+    let expected: unknown = raw;
+    try {
+      expected = JSON.parse(raw);
+    } catch {
+      // Compare as a plain string
+    }
+    const wanted = JSON.stringify(expected);
+    return (_key, data) => resolvePath(data, steps).filter((v) => JSON.stringify(v) === wanted);
+  }
+
+  const needle = query.toLowerCase();
+  return (key, data) => {
+    const haystacks = [key, JSON.stringify(data) ?? ""];
+    for (const text of haystacks) {
+      const at = text.toLowerCase().indexOf(needle);
+      if (at >= 0) {
+        const start = Math.max(0, at - SNIPPET_CONTEXT);
+        const end = Math.min(text.length, at + needle.length + SNIPPET_CONTEXT);
+        return [`${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`];
+      }
+    }
+    return [];
+  };
+}
+
+/**
+ * Search entry data across namespaces (or in one) by jq-like path or text.
+ * Encrypted entries are only searched when their key is given; negative
+ * entries have no data and are never matched.
+ */
+export function searchEntries(
+  cacheDir: string | CacheStore,
+  query: string,
+  options?: InspectOptions & {
+    /** Only search this namespace */
+    namespace?: string;
+    /** Treat the query as plain text even if it looks like a path */
+    text?: boolean;
+  }
+): SearchResult {
+  const store = resolveStore(cacheDir);
+  const result: SearchResult = { matches: [], skipped: 0 };
+  if (!store.hasManifest()) return result;
+
+  const match = compileQuery(query, options?.text ?? false);
+  const entries = Object.values(readManifest(store).entries)
+    .filter((entry) => !options?.namespace || entry.namespace === options.namespace)
+    .filter((entry) => !entry.negative)
+    .sort((a, b) => a.namespace.localeCompare(b.namespace) || a.key.localeCompare(b.key));
+
+  for (const entry of entries) {
+    let data: unknown;
+    try {
+      const content = store.read(entry.filePath);
+      if (content === null) continue;
+      const stored = parseEntry(content);
+      // Negative entry the manifest does not flag (written by an older version)
+      if (stored.error) continue;
+      data = decodeData(stored, entry.namespace, entry.key, options?.encryptionKey);
+    } catch {
+      result.skipped++;
+      continue;
+    }
+
+    for (const value of match(entry.key, data)) {
+      result.matches.push({ namespace: entry.namespace, key: entry.key, value });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,92 @@
+/**
+ * Access Journal - Append-only record of cache reads
+ * A read appends one line instead of rewriting the entry file and the
+ * manifest. The journal is folded into the manifest's lastAccessedAt and
+ * accessCount when it grows large and before cleanup picks eviction victims.
+ *
+ * Line format: ["<location>",<epoch ms>]
+ */
+
+import { CacheManifest, CacheStore } from "./types";
+import { updateManifest } from "./manifest";
+
+/** Compact once the journal grows past this many bytes */
+const COMPACT_THRESHOLD = 256 * 1024;
+
+/** One recorded read */
+export interface AccessRecord {
+  location: string;
+  at: number;
+}
+
+/**
+ * Journal line for a read of the entry at location
+ */
+export function formatAccess(location: string, at: number): string {
+  return JSON.stringify([location, at]) + "\n";
+}
+
+/**
+ * Parse journal content (torn or unreadable lines are skipped)
+ */
+export function parseJournal(content: string | null): AccessRecord[] {
+  if (!content) return [];
+
+  const records: AccessRecord[] = [];
+  for (const line of content.split("\n")) {
+    if (!line) continue;
+    try {
+      const [location, at] = JSON.parse(line) as [unknown, unknown];
+      if (typeof location === "string" && typeof at === "number") {
+        records.push({ location, at });
+      }
+    } catch {
+      // Torn line from an interrupted append
+    }
+  }
+  return records;
+}
+
+/**
+ * Apply reads to manifest entries: each read counts once and the latest
+ * access time wins (reads of removed entries are dropped)
+ */
+export function applyAccesses(manifest: CacheManifest, records: AccessRecord[]): void {
+  for (const { location, at } of records) {
+    const entry = manifest.entries[location];
+    if (!entry) continue;
+    entry.accessCount = (entry.accessCount ?? 0) + 1;
+    if (at > (new Date(entry.lastAccessedAt).getTime() || 0)) {
+      entry.lastAccessedAt = new Date(at).toISOString();
+    }
+  }
+}
+
+/**
+ * Fold the journal into a manifest and clear it; returns the number of reads
+ * applied. Call while holding the manifest lock (e.g. inside updateManifest).
+ */
+export function compactJournal(store: CacheStore, manifest: CacheManifest): number {
+  const records = parseJournal(store.takeJournal());
+  applyAccesses(manifest, records);
+  return records.length;
+}
+
+/**
+ * Compact the journal if it has grown past the threshold
+ */
+export function compactJournalIfNeeded(store: CacheStore): void {
+  if (store.journalSize() < COMPACT_THRESHOLD || !store.hasManifest()) return;
+  updateManifest(store, (manifest) => {
+    compactJournal(store, manifest);
+  });
+}
+
+/**
+ * Apply reads still in the journal to a manifest without compacting,
+ * for read-only views
+ */
+export function withPendingAccesses(store: CacheStore, manifest: CacheManifest): CacheManifest {
+  applyAccesses(manifest, parseJournal(store.readJournal()));
+  return manifest;
+}
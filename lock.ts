@@ -0,0 +1,187 @@
+/**
+ * Cache Lock - Cross-process advisory locking
+ * Lock files with stale-lock detection, used to serialize manifest updates
+ */
+
+import * as fs from "fs";
+import * as crypto from "crypto";
+
+const DEFAULT_LOCK_TIMEOUT = 10_000; // 10 seconds
+const DEFAULT_STALE_AFTER = 30_000; // 30 seconds
+const DEFAULT_MAX_HOLD = 5 * 60_000; // 5 minutes
+const RETRY_INTERVAL = 15; // ms between acquisition attempts
+
+/** Options for acquiring a lock */
+export interface LockOptions {
+  /** Give up after this many ms (default: 10 seconds) */
+  timeout?: number;
+  /** Treat an unreadable lock file older than this many ms as abandoned (default: 30 seconds) */
+  staleAfter?: number;
+  /**
+   * Treat a lock held longer than this many ms as abandoned even if a process
+   * with its pid is alive, e.g. a reused pid or a holder on another host
+   * (default: 5 minutes; critical sections are short and synchronous)
+   */
+  maxHold?: number;
+}
+
+/** Contents of a lock file */
+interface LockInfo {
+  pid: number;
+  token: string;
+  acquiredAt: string;
+}
+
+/** Thrown when a lock cannot be acquired before the timeout */
+export class LockTimeoutError extends Error {
+  constructor(
+    public readonly lockPath: string,
+    public readonly timeout: number
+  ) {
+    super(`Timed out after ${timeout}ms waiting for lock ${lockPath}`);
+    this.name = "LockTimeoutError";
+  }
+}
+
+// Lock paths currently held by this process (locks are reentrant)
+const heldLocks = new Set<string>();
+
+const sleepBuffer = new Int32Array(new SharedArrayBuffer(4));
+
+function sleepSync(ms: number): void {
+  Atomics.wait(sleepBuffer, 0, 0, ms);
+}
+
+function readLockInfo(lockPath: string): LockInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, "utf-8")) as LockInfo;
+  } catch {
+    return null;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * A lock is abandoned when its owner has exited or it has been held longer
+ * than maxHold. A lock file that cannot be read (e.g. left half-written by a
+ * crash) is abandoned once older than staleAfter.
+ */
+function isStale(
+  lockPath: string,
+  info: LockInfo | null,
+  staleAfter: number,
+  maxHold: number
+): boolean {
+  if (info && !isProcessAlive(info.pid)) {
+    return true;
+  }
+  try {
+    const age = Date.now() - fs.statSync(lockPath).mtimeMs;
+    return age > (info ? maxHold : staleAfter);
+  } catch {
+    // Lock disappeared in the meantime, just retry
+    return false;
+  }
+}
+
+/**
+ * Break an abandoned lock.
+ * The lock is moved aside atomically first; if another process replaced it
+ * between our staleness check and the rename, the fresh lock is put back.
+ */
+function breakStaleLock(lockPath: string, observed: LockInfo | null): void {
+  const asidePath = `${lockPath}.stale.${process.pid}`;
+  try {
+    fs.renameSync(lockPath, asidePath);
+  } catch {
+    return;
+  }
+
+  const moved = readLockInfo(asidePath);
+  if (observed && moved && moved.token !== observed.token) {
+    try {
+      fs.linkSync(asidePath, lockPath);
+    } catch {
+      // Someone else took the lock already
+    }
+  }
+
+  try {
+    fs.unlinkSync(asidePath);
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
+function acquire(lockPath: string, options?: LockOptions): string {
+  const timeout = options?.timeout ?? DEFAULT_LOCK_TIMEOUT;
+  const staleAfter = options?.staleAfter ?? DEFAULT_STALE_AFTER;
+  const maxHold = options?.maxHold ?? DEFAULT_MAX_HOLD;
+  const token = crypto.randomBytes(8).toString("hex");
+  const info: LockInfo = { pid: process.pid, token, acquiredAt: new Date().toISOString() };
+  const deadline = Date.now() + timeout;
+
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, JSON.stringify(info), { flag: "wx" });
+      return token;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    const current = readLockInfo(lockPath);
+    if (isStale(lockPath, current, staleAfter, maxHold)) {
+      breakStaleLock(lockPath, current);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new LockTimeoutError(lockPath, timeout);
+    }
+    sleepSync(RETRY_INTERVAL + Math.floor(Math.random() * RETRY_INTERVAL));
+  }
+}
+
+function release(lockPath: string, token: string): void {
+  const current = readLockInfo(lockPath);
+  if (current?.token !== token) {
+    // Lock was broken as stale and is now owned by someone else
+    return;
+  }
+  try {
+    fs.unlinkSync(lockPath);
+  } catch {
+    // Ignore release errors
+  }
+}
+
+/**
+ * Run fn while holding the lock file at lockPath.
+ * Reentrant within a process, so nested calls on the same path do not deadlock.
+ * fn must be synchronous: the lock is released as soon as it returns.
+ */
+export function withLock<T>(lockPath: string, fn: () => T, options?: LockOptions): T {
+  if (heldLocks.has(lockPath)) {
+    return fn();
+  }
+
+  const token = acquire(lockPath, options);
+  heldLocks.add(lockPath);
+  try {
+    return fn();
+  } finally {
+    heldLocks.delete(lockPath);
+    release(lockPath, token);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Cache Manifest - Shared manifest I/O
+ * All read-modify-write cycles on the manifest go through updateManifest()
+ */
+
+import { CacheEntry, CacheManifest, CacheStore, ManifestEntry } from "./types";
+
+export const MANIFEST_VERSION = 2;
+export const DEFAULT_MAX_SIZE = 500 * 1024 * 1024; // 500MB
+
+/** Thrown when a manifest was written by a newer version of this library */
+export class ManifestVersionError extends Error {
+  constructor(
+    public readonly manifestVersion: number,
+    public readonly supportedVersion: number = MANIFEST_VERSION
+  ) {
+    super(
+      `Cache manifest version ${manifestVersion} is newer than supported version ${supportedVersion}; ` +
+        `upgrade @local/plugin-cache`
+    );
+    this.name = "ManifestVersionError";
+  }
+}
+
+/**
+ * Create an empty manifest
+ */
+export function createEmptyManifest(): CacheManifest {
+  return {
+    version: MANIFEST_VERSION,
+    totalSize: 0,
+    maxSize: DEFAULT_MAX_SIZE,
+    entries: {},
+  };
+}
+
+/**
+ * Rebuild a manifest by scanning the entries in storage.
+ * Unparsable entries, and entries from before hashed filenames (no key stored
+ * inside, so their original key is unknown and they can never be read), are
+ * kept marked expired so they still count towards the size limit and get purged.
+ */
+export function rebuildManifest(store: CacheStore): CacheManifest {
+  const manifest = createEmptyManifest();
+
+  for (const stored of store.list()) {
+    const { namespace, location } = stored;
+    const fallbackKey = location.slice(location.lastIndexOf("/") + 1).replace(/\.json$/, "");
+    const now = new Date().toISOString();
+
+    let entry: ManifestEntry;
+    try {
+      const content = store.read(location);
+      if (content === null) continue;
+      const cached = JSON.parse(content) as CacheEntry;
+      const legacy = cached.key === undefined;
+      entry = {
+        filePath: location,
+        namespace,
+        key: cached.key ?? fallbackKey,
+        size: stored.size,
+        logicalSize: cached.size ?? stored.size,
+        ...(cached.createdAt && { createdAt: cached.createdAt }),
+        lastAccessedAt: cached.lastAccessedAt ?? now,
+        expiresAt: (!legacy && cached.expiresAt) || new Date(0).toISOString(),
+        ...(cached.tags && { tags: cached.tags }),
+        ...(cached.error && { negative: true }),
+      };
+    } catch {
+      entry = {
+        filePath: location,
+        namespace,
+        key: fallbackKey,
+        size: stored.size,
+        lastAccessedAt: now,
+        expiresAt: new Date(0).toISOString(),
+      };
+    }
+
+    manifest.entries[location] = entry;
+    manifest.totalSize += entry.size;
+  }
+
+  return manifest;
+}
+
+/**
+ * Load the manifest, reporting whether it had to be rebuilt from storage.
+ * Missing manifest -> empty; corrupt manifest -> rebuilt from storage;
+ * manifest from a newer library version -> ManifestVersionError.
+ */
+export function loadManifest(store: CacheStore): { manifest: CacheManifest; rebuilt: boolean } {
+  const content = store.readManifest();
+  if (content === null) {
+    return { manifest: createEmptyManifest(), rebuilt: false };
+  }
+
+  let manifest: CacheManifest;
+  try {
+    manifest = JSON.parse(content) as CacheManifest;
+  } catch {
+    return { manifest: rebuildManifest(store), rebuilt: true };
+  }
+  if (!manifest || typeof manifest !== "object" || !manifest.entries || typeof manifest.entries !== "object") {
+    return { manifest: rebuildManifest(store), rebuilt: true };
+  }
+
+  const version = manifest.version ?? 1;
+  if (version > MANIFEST_VERSION) {
+    throw new ManifestVersionError(version);
+  }
+
+  return { manifest, rebuilt: false };
+}
+
+/**
+ * Read the manifest (see loadManifest)
+ */
+export function readManifest(store: CacheStore): CacheManifest {
+  return loadManifest(store).manifest;
+}
+
+/**
+ * Write the manifest
+ */
+export function writeManifest(store: CacheStore, manifest: CacheManifest): void {
+  store.writeManifest(JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Run fn while holding the manifest lock (reentrant, synchronous fn only)
+ */
+export function withManifestLock<T>(store: CacheStore, fn: () => T): T {
+  return store.lock(fn);
+}
+
+/**
+ * Read, modify and write the manifest under the store's lock.
+ * fn mutates the manifest in place; its return value is passed through.
+ */
+export function updateManifest<T>(
+  store: CacheStore,
+  fn: (manifest: CacheManifest) => T
+): T {
+  return store.lock(() => {
+    const manifest = readManifest(store);
+    const result = fn(manifest);
+    writeManifest(store, manifest);
+    return result;
+  });
+}
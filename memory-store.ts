@@ -0,0 +1,124 @@
+/**
+ * Memory Store - In-process storage backend
+ * For unit tests and ephemeral plugins; nothing survives the process
+ */
+
+import { CacheStore, StoredEntry } from "./types";
+import { keyToFileName } from "./filename";
+
+export class MemoryStore implements CacheStore {
+  readonly location = "memory";
+  private entries = new Map<string, string>();
+  private manifest: string | null = null;
+  private metrics: string | null = null;
+  private metricsJournal = "";
+  private journal = "";
+
+  locate(namespace: string, key: string): string {
+    return `${namespace}/${keyToFileName(key)}`;
+  }
+
+  read(location: string): string | null {
+    return this.entries.get(location) ?? null;
+  }
+
+  write(location: string, content: string): void {
+    this.entries.set(location, content);
+  }
+
+  delete(location: string): boolean {
+    return this.entries.delete(location);
+  }
+
+  exists(location: string): boolean {
+    return this.entries.has(location);
+  }
+
+  list(namespace?: string): StoredEntry[] {
+    const result: StoredEntry[] = [];
+    for (const [location, content] of this.entries) {
+      const ns = location.slice(0, location.indexOf("/"));
+      if (namespace && ns !== namespace) continue;
+      result.push({ namespace: ns, location, size: Buffer.byteLength(content, "utf-8") });
+    }
+    return result;
+  }
+
+  namespaces(): string[] {
+    return [...new Set(this.list().map((e) => e.namespace))];
+  }
+
+  removeNamespace(namespace: string): void {
+    for (const location of [...this.entries.keys()]) {
+      if (location.startsWith(`${namespace}/`)) {
+        this.entries.delete(location);
+      }
+    }
+  }
+
+  hasManifest(): boolean {
+    return this.manifest !== null;
+  }
+
+  readManifest(): string | null {
+    return this.manifest;
+  }
+
+  writeManifest(content: string): void {
+    this.manifest = content;
+  }
+
+  readMetrics(): string | null {
+    return this.metrics;
+  }
+
+  writeMetrics(content: string): void {
+    this.metrics = content;
+  }
+
+  appendMetrics(lines: string): void {
+    this.metricsJournal += lines;
+  }
+
+  metricsJournalSize(): number {
+    return Buffer.byteLength(this.metricsJournal, "utf-8");
+  }
+
+  readMetricsJournal(): string | null {
+    return this.metricsJournal || null;
+  }
+
+  takeMetricsJournal(): string | null {
+    const content = this.metricsJournal;
+    this.metricsJournal = "";
+    return content || null;
+  }
+
+  appendJournal(lines: string): void {
+    this.journal += lines;
+  }
+
+  journalSize(): number {
+    return Buffer.byteLength(this.journal, "utf-8");
+  }
+
+  readJournal(): string | null {
+    return this.journal || null;
+  }
+
+  takeJournal(): string | null {
+    const content = this.journal;
+    this.journal = "";
+    return content || null;
+  }
+
+  listTempFiles(): string[] {
+    // Writes are not staged, so nothing is ever left behind
+    return [];
+  }
+
+  lock<T>(fn: () => T): T {
+    // Single process, synchronous callers: nothing to serialize
+    return fn();
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Memory Tier - Bounded in-process LRU
+ * Optional L1 in front of the file store, limited by entry count and bytes
+ */
+
+interface MemorySlot<V> {
+  value: V;
+  size: number;
+}
+
+export class MemoryLRU<V> {
+  // Map iteration order is insertion order: first key = least recently used
+  private slots = new Map<string, MemorySlot<V>>();
+  private bytes = 0;
+
+  constructor(
+    private maxEntries: number,
+    private maxBytes: number
+  ) {}
+
+  /**
+   * Get a value and mark it most recently used
+   */
+  get(key: string): V | undefined {
+    const slot = this.slots.get(key);
+    if (!slot) return undefined;
+    this.slots.delete(key);
+    this.slots.set(key, slot);
+    return slot.value;
+  }
+
+  /**
+   * Store a value, evicting least recently used values to stay within limits
+   */
+  set(key: string, value: V, size: number): void {
+    this.delete(key);
+    if (size > this.maxBytes || this.maxEntries <= 0) {
+      return;
+    }
+
+    this.slots.set(key, { value, size });
+    this.bytes += size;
+
+    for (const [oldKey, slot] of this.slots) {
+      if (this.slots.size <= this.maxEntries && this.bytes <= this.maxBytes) break;
+      this.slots.delete(oldKey);
+      this.bytes -= slot.size;
+    }
+  }
+
+  delete(key: string): boolean {
+    const slot = this.slots.get(key);
+    if (!slot) return false;
+    this.slots.delete(key);
+    this.bytes -= slot.size;
+    return true;
+  }
+
+  /**
+   * Delete all values matching a predicate
+   */
+  deleteWhere(predicate: (key: string, value: V) => boolean): number {
+    let count = 0;
+    for (const [key, slot] of this.slots) {
+      if (predicate(key, slot.value)) {
+        this.slots.delete(key);
+        this.bytes -= slot.size;
+        count++;
+      }
+    }
+    return count;
+  }
+
+  clear(): void {
+    this.slots.clear();
+    this.bytes = 0;
+  }
+
+  get size(): number {
+    return this.slots.size;
+  }
+
+  get totalBytes(): number {
+    return this.bytes;
+  }
+}
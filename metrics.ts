@@ -0,0 +1,329 @@
+/**
+ * Cache Metrics - Persistent hit/miss/latency counters
+ * Counters are kept in memory and saved in batches, so recording an event
+ * costs no I/O. A save appends the batch to the metrics journal; the journal
+ * is folded into the hourly buckets of the metrics file once it grows large,
+ * so the cost of a save does not depend on how much history is kept.
+ *
+ * Journal line format: ["<hour>",{"<namespace>":{...counters}}]
+ */
+
+import { CacheStore, ManifestEntry, MetricCounters, NamespaceMetrics } from "./types";
+
+const METRICS_VERSION = 1;
+/** Hourly buckets older than this are dropped */
+const RETENTION_HOURS = 30 * 24;
+/** Distinct key prefixes tracked per namespace and hour; the rest count as "*" */
+const MAX_PREFIXES = 100;
+const OTHER_PREFIX = "*";
+/** Flush after this many unsaved events */
+const FLUSH_EVENTS = 100;
+/** Flush unsaved events after this long */
+const FLUSH_INTERVAL = 5_000;
+/** Fold the journal into the metrics file once it grows past this many bytes */
+const COMPACT_THRESHOLD = 64 * 1024;
+
+/** Event counters that can be incremented by record() */
+export type MetricEvent =
+  | "hits"
+  | "staleHits"
+  | "misses"
+  | "bypasses"
+  | "evictions"
+  | "rejections"
+  | "revalidations";
+
+/** Counters by namespace for one hour */
+type MetricsBucket = Record<string, NamespaceMetrics>;
+
+/** Stored metrics: buckets keyed by UTC hour ("2024-01-15T10") */
+interface MetricsFile {
+  version: number;
+  hours: Record<string, MetricsBucket>;
+}
+
+/**
+ * Create zeroed counters
+ */
+export function emptyCounters(): MetricCounters {
+  return {
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    bypasses: 0,
+    evictions: 0,
+    rejections: 0,
+    revalidations: 0,
+    fetches: 0,
+    fetchMs: 0,
+  };
+}
+
+function emptyNamespaceMetrics(): NamespaceMetrics {
+  return { ...emptyCounters(), byPrefix: {} };
+}
+
+function addCounters(target: MetricCounters, source: MetricCounters): void {
+  target.hits += source.hits;
+  target.staleHits += source.staleHits;
+  target.misses += source.misses;
+  target.bypasses += source.bypasses;
+  target.evictions += source.evictions;
+  // Not present in metrics saved before these were tracked
+  target.rejections = (target.rejections ?? 0) + (source.rejections ?? 0);
+  target.revalidations = (target.revalidations ?? 0) + (source.revalidations ?? 0);
+  target.fetches += source.fetches;
+  target.fetchMs += source.fetchMs;
+}
+
+function addNamespaceMetrics(target: NamespaceMetrics, source: NamespaceMetrics): void {
+  addCounters(target, source);
+  for (const [prefix, counters] of Object.entries(source.byPrefix)) {
+    let slot = prefix;
+    if (!target.byPrefix[slot] && Object.keys(target.byPrefix).length >= MAX_PREFIXES) {
+      slot = OTHER_PREFIX;
+    }
+    target.byPrefix[slot] ??= emptyCounters();
+    addCounters(target.byPrefix[slot], counters);
+  }
+}
+
+/**
+ * Prefix a key is grouped under (text before the first ":", "?" or "/")
+ */
+export function keyPrefix(key: string): string {
+  return key.split(/[:?/]/, 1)[0] || key;
+}
+
+/**
+ * Fraction of lookups served from cache (fresh or stale), 0 when there were none
+ */
+export function hitRatio(counters: MetricCounters): number {
+  const served = counters.hits + counters.staleHits;
+  const total = served + counters.misses;
+  return total === 0 ? 0 : served / total;
+}
+
+/**
+ * Estimated fetch time saved by hits, using the average fetch time
+ */
+export function timeSavedMs(counters: MetricCounters): number {
+  if (counters.fetches === 0) return 0;
+  return (counters.hits + counters.staleHits) * (counters.fetchMs / counters.fetches);
+}
+
+function hourKey(date: Date): string {
+  return date.toISOString().slice(0, 13);
+}
+
+/**
+ * Earliest hour still kept at a point in time
+ */
+function oldestHour(at: Date): string {
+  return hourKey(new Date(at.getTime() - RETENTION_HOURS * 3_600_000));
+}
+
+function loadMetrics(store: CacheStore): MetricsFile {
+  try {
+    const content = store.readMetrics();
+    if (content !== null) {
+      const parsed = JSON.parse(content) as MetricsFile;
+      if (parsed && parsed.version === METRICS_VERSION && typeof parsed.hours === "object") {
+        return parsed;
+      }
+    }
+  } catch {
+    // Unreadable metrics start over; they are not worth failing a cache call for
+  }
+  return { version: METRICS_VERSION, hours: {} };
+}
+
+function mergeBucket(metrics: MetricsFile, hour: string, bucket: MetricsBucket): void {
+  const current = (metrics.hours[hour] ??= {});
+  for (const [namespace, counters] of Object.entries(bucket)) {
+    current[namespace] ??= emptyNamespaceMetrics();
+    addNamespaceMetrics(current[namespace], counters);
+  }
+}
+
+/**
+ * Merge journal content into metrics (torn or unreadable lines are skipped)
+ */
+function applyJournal(metrics: MetricsFile, content: string | null): void {
+  if (!content) return;
+
+  for (const line of content.split("\n")) {
+    if (!line) continue;
+    try {
+      const [hour, bucket] = JSON.parse(line) as [unknown, unknown];
+      if (typeof hour === "string" && bucket && typeof bucket === "object") {
+        mergeBucket(metrics, hour, bucket as MetricsBucket);
+      }
+    } catch {
+      // Torn line from an interrupted append
+    }
+  }
+}
+
+/**
+ * Fold the metrics journal into the metrics file, dropping hours past retention
+ */
+function compactMetrics(store: CacheStore): void {
+  store.lock(() => {
+    const metrics = loadMetrics(store);
+    applyJournal(metrics, store.takeMetricsJournal());
+
+    const oldest = oldestHour(new Date());
+    for (const key of Object.keys(metrics.hours)) {
+      if (key < oldest) delete metrics.hours[key];
+    }
+
+    store.writeMetrics(JSON.stringify(metrics));
+  });
+}
+
+/**
+ * Add counters to the current hour of the store's metrics
+ */
+export function recordMetrics(store: CacheStore, bucket: MetricsBucket, at: Date = new Date()): void {
+  store.appendMetrics(JSON.stringify([hourKey(at), bucket]) + "\n");
+  if (store.metricsJournalSize() >= COMPACT_THRESHOLD) {
+    compactMetrics(store);
+  }
+}
+
+/**
+ * Record entries removed by size-based cleanup as evictions
+ */
+export function recordEvictions(store: CacheStore, entries: ManifestEntry[]): void {
+  if (entries.length === 0) return;
+
+  const bucket: MetricsBucket = {};
+  for (const entry of entries) {
+    const ns = (bucket[entry.namespace] ??= emptyNamespaceMetrics());
+    const prefix = keyPrefix(entry.key);
+    ns.evictions++;
+    ns.byPrefix[prefix] ??= emptyCounters();
+    ns.byPrefix[prefix].evictions++;
+  }
+
+  try {
+    recordMetrics(store, bucket);
+  } catch {
+    // Metrics are best-effort
+  }
+}
+
+/**
+ * Sum stored metrics per namespace, optionally for one namespace and/or
+ * since a point in time (hour granularity)
+ */
+export function readMetrics(
+  store: CacheStore,
+  options?: { namespace?: string; since?: Date }
+): Record<string, NamespaceMetrics> {
+  const metrics = loadMetrics(store);
+  applyJournal(metrics, store.readMetricsJournal());
+  const oldest = oldestHour(new Date());
+  const since = options?.since ? hourKey(options.since) : "";
+  const from = since > oldest ? since : oldest;
+  const result: Record<string, NamespaceMetrics> = {};
+
+  for (const [hour, bucket] of Object.entries(metrics.hours)) {
+    if (hour < from) continue;
+    for (const [namespace, counters] of Object.entries(bucket)) {
+      if (options?.namespace && namespace !== options.namespace) continue;
+      result[namespace] ??= emptyNamespaceMetrics();
+      addNamespaceMetrics(result[namespace], counters);
+    }
+  }
+
+  return result;
+}
+
+// Recorders with unsaved events, flushed when the process exits
+const liveRecorders = new Set<MetricsRecorder>();
+let exitHookInstalled = false;
+
+/**
+ * Buffers one namespace's events in memory and saves them in batches
+ */
+export class MetricsRecorder {
+  private pending = emptyNamespaceMetrics();
+  private pendingEvents = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private store: CacheStore,
+    private namespace: string
+  ) {}
+
+  /**
+   * Count an event for a key
+   */
+  record(event: MetricEvent, key: string): void {
+    this.counters(key).forEach((c) => c[event]++);
+    this.touched();
+  }
+
+  /**
+   * Record how long a fetcher took for a key
+   */
+  recordFetch(key: string, durationMs: number): void {
+    this.counters(key).forEach((c) => {
+      c.fetches++;
+      c.fetchMs += durationMs;
+    });
+    this.touched();
+  }
+
+  /**
+   * Save unsaved events to the store (errors keep them for the next attempt)
+   */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pendingEvents === 0) return;
+
+    try {
+      recordMetrics(this.store, { [this.namespace]: this.pending });
+      this.pending = emptyNamespaceMetrics();
+      this.pendingEvents = 0;
+      liveRecorders.delete(this);
+    } catch {
+      // Metrics are best-effort; retry on the next flush
+    }
+  }
+
+  private counters(key: string): MetricCounters[] {
+    const prefix = keyPrefix(key);
+    const byPrefix = (this.pending.byPrefix[prefix] ??= emptyCounters());
+    return [this.pending, byPrefix];
+  }
+
+  private touched(): void {
+    this.pendingEvents++;
+    liveRecorders.add(this);
+    installExitHook();
+
+    if (this.pendingEvents >= FLUSH_EVENTS) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), FLUSH_INTERVAL);
+      // Never keep the process alive just to save metrics
+      this.timer.unref();
+    }
+  }
+}
+
+function installExitHook(): void {
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+  process.on("exit", () => {
+    for (const recorder of [...liveRecorders]) {
+      recorder.flush();
+    }
+  });
+}
@@ -0,0 +1,127 @@
+/**
+ * Cache Migrations - Step-by-step upgrades of the manifest and entry schemas
+ *
+ * Each step upgrades a manifest from one version to the next and may also
+ * rewrite entry files. Steps run in order until MANIFEST_VERSION is reached.
+ * Manifests written by a newer library version are never downgraded.
+ */
+
+import { CacheEntry, CacheManifest, CacheStore, ManifestEntry } from "./types";
+import { resolveStore } from "./file-store";
+import {
+  MANIFEST_VERSION,
+  ManifestVersionError,
+  loadManifest,
+  withManifestLock,
+  writeManifest,
+} from "./manifest";
+
+/** A single schema upgrade step */
+export interface ManifestMigration {
+  /** Version this step upgrades from */
+  from: number;
+  /** Version after this step */
+  to: number;
+  /** What the step changes */
+  description: string;
+  /** Upgrade the manifest in place (and any stored entries it references) */
+  migrate(manifest: CacheManifest, store: CacheStore): void;
+}
+
+/**
+ * Version 1 -> 2: move entry files from sanitized-key names to hashed names
+ * and store the original key inside each entry (sizes follow the rewritten files).
+ */
+function migrateFileNames(manifest: CacheManifest, store: CacheStore): void {
+  const entries: Record<string, ManifestEntry> = {};
+
+  for (const [oldPath, entry] of Object.entries(manifest.entries)) {
+    const newPath = store.locate(entry.namespace, entry.key);
+    let size = entry.size;
+
+    try {
+      const content = oldPath !== newPath && !store.exists(newPath) ? store.read(oldPath) : null;
+      if (content !== null) {
+        let migrated = content;
+        try {
+          const cached = JSON.parse(content) as CacheEntry;
+          cached.key = entry.key;
+          migrated = JSON.stringify(cached);
+        } catch {
+          // Unparsable entry: move it as-is
+        }
+        store.write(newPath, migrated);
+        store.delete(oldPath);
+        size = Buffer.byteLength(migrated, "utf-8");
+      }
+    } catch {
+      // Leave the file behind; the entry will simply miss
+    }
+
+    manifest.totalSize += size - entry.size;
+    entries[newPath] = { ...entry, filePath: newPath, size };
+  }
+
+  manifest.entries = entries;
+}
+
+/** Registered migrations, one per version step */
+export const MANIFEST_MIGRATIONS: ManifestMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: "Hashed entry filenames; original key stored in each entry",
+    migrate: migrateFileNames,
+  },
+];
+
+/**
+ * Upgrade a manifest in place to MANIFEST_VERSION.
+ * Returns true if any migration ran.
+ */
+export function migrateManifest(manifest: CacheManifest, store: CacheStore): boolean {
+  let version = manifest.version ?? 1;
+  if (version > MANIFEST_VERSION) {
+    throw new ManifestVersionError(version);
+  }
+
+  let migrated = false;
+  while (version < MANIFEST_VERSION) {
+    const step = MANIFEST_MIGRATIONS.find((m) => m.from === version);
+    if (!step) {
+      throw new Error(`No cache migration registered from manifest version ${version}`);
+    }
+    step.migrate(manifest, store);
+    version = step.to;
+    manifest.version = version;
+    migrated = true;
+  }
+
+  return migrated;
+}
+
+/**
+ * Bring the manifest and stored entries up to date.
+ * Rebuilds a corrupt manifest from storage and runs pending migrations.
+ * Cheap when already current: only the manifest is read.
+ */
+export function migrateCache(target: string | CacheStore): void {
+  const store = resolveStore(target);
+  if (!store.hasManifest()) {
+    return;
+  }
+
+  const current = loadManifest(store);
+  if (!current.rebuilt && (current.manifest.version ?? 1) === MANIFEST_VERSION) {
+    return;
+  }
+
+  withManifestLock(store, () => {
+    // Re-read under the lock: another process may have migrated already
+    const { manifest, rebuilt } = loadManifest(store);
+    const migrated = migrateManifest(manifest, store);
+    if (rebuilt || migrated) {
+      writeManifest(store, manifest);
+    }
+  });
+}
@@ -0,0 +1,264 @@
+/**
+ * Cache Snapshots - Export and import namespaces as NDJSON
+ *
+ * Format (one JSON object per line):
+ *   {"type":"snapshot","format":"plugin-cache-snapshot","version":1,...}  Header
+ *   {"type":"entry","namespace":"...","key":"...","entry":{...}}          One per entry
+ *
+ * Entries are exported decoded (no compression or encryption), so a snapshot
+ * can be imported into any store and re-encoded with the target's settings.
+ * Negative entries (remembered fetch failures) hold no data and are left out.
+ * Import goes through PluginCache.set(), so manifest accounting, size limits
+ * and cleanup apply as for any other write.
+ */
+
+import * as fs from "fs";
+import { CacheConfig, CacheEntry, CacheStore } from "./types";
+import { resolveStore } from "./file-store";
+import { readManifest } from "./manifest";
+import { decodeEntry, parseEntry } from "./codec";
+import { EncryptionKey, entryAAD } from "./encryption";
+import { PluginCache } from "./cache";
+
+const SNAPSHOT_FORMAT = "plugin-cache-snapshot";
+const SNAPSHOT_VERSION = 1;
+
+/** First line of a snapshot */
+export interface SnapshotHeader {
+  type: "snapshot";
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  createdAt: string;
+  /** Store the snapshot was taken from */
+  source: string;
+  namespaces: string[];
+  entryCount: number;
+}
+
+/** One exported entry */
+export interface SnapshotEntry {
+  type: "entry";
+  namespace: string;
+  key: string;
+  /** Decoded entry (data inline, no codec or cipher) */
+  entry: CacheEntry;
+  /** Recorded fetch time, for cost-aware eviction */
+  fetchMs?: number;
+}
+
+/** Options for exportSnapshot() */
+export interface ExportSnapshotOptions {
+  /** Namespaces to export (default: all) */
+  namespaces?: string[];
+  /** Key for decrypting encrypted entries (they are skipped without it) */
+  encryptionKey?: EncryptionKey;
+}
+
+/** Result of exportSnapshot() */
+export interface ExportSnapshotResult {
+  exported: number;
+  /** Entries that could not be read or decrypted */
+  skipped: number;
+  namespaces: string[];
+}
+
+/** Options for importSnapshot() */
+export interface ImportSnapshotOptions {
+  /** Rename namespaces on import (source -> target) */
+  namespaceMap?: Record<string, string>;
+  /** Give entries their original TTL again, counted from now */
+  refreshTtl?: boolean;
+  /** Settings for the target caches (e.g. compression, encryption, maxSize) */
+  config?: Omit<CacheConfig, "namespace" | "store" | "cacheDir">;
+}
+
+/** Result of importSnapshot() */
+export interface ImportSnapshotResult {
+  imported: number;
+  /** Entries rejected by the target cache (e.g. over maxEntrySize) */
+  skipped: number;
+  /** Entries already past their expiry (only imported with refreshTtl) */
+  expired: number;
+  /** Imported entries per target namespace */
+  byNamespace: Record<string, number>;
+}
+
+/** Thrown when a file is not a readable snapshot */
+export class SnapshotFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotFormatError";
+  }
+}
+
+/**
+ * Write namespaces of a cache to an NDJSON snapshot file
+ */
+export function exportSnapshot(
+  cacheDir: string | CacheStore,
+  outFile: string,
+  options?: ExportSnapshotOptions
+): ExportSnapshotResult {
+  const store = resolveStore(cacheDir);
+  const manifest = store.hasManifest() ? readManifest(store) : null;
+  const wanted = options?.namespaces ? new Set(options.namespaces) : null;
+
+  const lines: string[] = [];
+  const namespaces = new Set<string>();
+  let skipped = 0;
+
+  const entries = Object.values(manifest?.entries ?? {})
+    .filter((entry) => !entry.negative && (!wanted || wanted.has(entry.namespace)))
+    .sort((a, b) => a.namespace.localeCompare(b.namespace) || a.key.localeCompare(b.key));
+
+  for (const manifestEntry of entries) {
+    const { namespace, key } = manifestEntry;
+    try {
+      const content = store.read(manifestEntry.filePath);
+      if (content === null) continue;
+      const stored = parseEntry(content);
+      // Older manifests do not flag negative entries
+      if (stored.error) continue;
+      const encryption =
+        stored.cipher && options?.encryptionKey
+          ? { key: options.encryptionKey, aad: entryAAD(namespace, key) }
+          : undefined;
+      const { codec, cipher, ...entry } = decodeEntry(stored, encryption);
+
+      const line: SnapshotEntry = {
+        type: "entry",
+        namespace,
+        key,
+        entry: { ...entry, key },
+        ...(manifestEntry.fetchMs !== undefined && { fetchMs: manifestEntry.fetchMs }),
+      };
+      lines.push(JSON.stringify(line));
+      namespaces.add(namespace);
+    } catch {
+      skipped++;
+    }
+  }
+
+  const header: SnapshotHeader = {
+    type: "snapshot",
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    source: store.location,
+    namespaces: [...namespaces],
+    entryCount: lines.length,
+  };
+  fs.writeFileSync(outFile, [JSON.stringify(header), ...lines].join("\n") + "\n");
+
+  return { exported: lines.length, skipped, namespaces: header.namespaces };
+}
+
+/**
+ * Parse a snapshot file (throws SnapshotFormatError if it is not one)
+ */
+export function readSnapshot(inFile: string): { header: SnapshotHeader; entries: SnapshotEntry[] } {
+  const lines = fs
+    .readFileSync(inFile, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+
+  let header: SnapshotHeader;
+  try {
+    header = JSON.parse(lines[0] ?? "") as SnapshotHeader;
+  } catch {
+    throw new SnapshotFormatError(`${inFile} is not a cache snapshot`);
+  }
+  if (header?.type !== "snapshot" || header.format !== SNAPSHOT_FORMAT) {
+    throw new SnapshotFormatError(`${inFile} is not a cache snapshot`);
+  }
+  if (header.version > SNAPSHOT_VERSION) {
+    throw new SnapshotFormatError(
+      `Snapshot version ${header.version} is newer than supported version ${SNAPSHOT_VERSION}`
+    );
+  }
+
+  const entries = lines.slice(1).map((line, index) => {
+    try {
+      const parsed = JSON.parse(line) as SnapshotEntry;
+      if (parsed.type === "entry" && parsed.namespace && parsed.key !== undefined && parsed.entry) {
+        return parsed;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new SnapshotFormatError(`${inFile} line ${index + 2} is not a snapshot entry`);
+  });
+
+  return { header, entries };
+}
+
+/**
+ * Import a snapshot file into a cache through the normal write path
+ */
+export async function importSnapshot(
+  cacheDir: string | CacheStore,
+  inFile: string,
+  options?: ImportSnapshotOptions
+): Promise<ImportSnapshotResult> {
+  const store = resolveStore(cacheDir);
+  const { entries } = readSnapshot(inFile);
+  const result: ImportSnapshotResult = { imported: 0, skipped: 0, expired: 0, byNamespace: {} };
+  const caches = new Map<string, PluginCache>();
+  const unsubscribes: (() => void)[] = [];
+  const now = Date.now();
+  // Key of the entry being written, cleared if the cache rejects it
+  let writing: string | null = null;
+
+  try {
+    for (const { namespace: source, key, entry, fetchMs } of entries) {
+      // Remembered failures are not data (older snapshots may contain them)
+      if (entry.error) continue;
+      const namespace = options?.namespaceMap?.[source] ?? source;
+
+      const expiresAt = new Date(entry.expiresAt).getTime();
+      const ttl = options?.refreshTtl
+        ? expiresAt - new Date(entry.createdAt).getTime()
+        : expiresAt - now;
+      if (!(ttl > 0)) {
+        result.expired++;
+        continue;
+      }
+
+      let cache = caches.get(namespace);
+      if (!cache) {
+        cache = new PluginCache({ ...options?.config, namespace, store });
+        if (cache.isDisabled()) {
+          throw new Error(`Cannot import into "${namespace}": cache is disabled`);
+        }
+        unsubscribes.push(
+          cache.on("skip-oversize", (event) => {
+            if (event.key === writing) writing = null;
+          })
+        );
+        caches.set(namespace, cache);
+      }
+
+      // A rejected write leaves any existing entry for the key in place
+      writing = key;
+      await cache.set(key, entry.data, {
+        ttl,
+        ...(entry.etag && { etag: entry.etag }),
+        ...(entry.lastModified && { lastModified: entry.lastModified }),
+        ...(entry.version && { version: entry.version }),
+        ...(entry.tags && { tags: entry.tags }),
+        ...(fetchMs !== undefined && { fetchMs }),
+      });
+
+      if (writing === key && cache.has(key)) {
+        result.imported++;
+        result.byNamespace[namespace] = (result.byNamespace[namespace] ?? 0) + 1;
+      } else {
+        result.skipped++;
+      }
+    }
+  } finally {
+    unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }
+
+  return result;
+}
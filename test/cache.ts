@@ -0,0 +1,71 @@
+/**
+ * PluginCache reads: failures while dropping entries must not make get() throw
+ *
+ * Run with: npm test
+ */
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { PluginCache } from "../cache";
+import { MANIFEST_VERSION } from "../manifest";
+import { onCacheEvent } from "../events";
+import { runTests } from "./harness";
+
+/**
+ * Replace the manifest with one from a newer library version, so every
+ * manifest update fails with ManifestVersionError
+ */
+function lockOutManifestUpdates(cacheDir: string): void {
+  const newer = { version: MANIFEST_VERSION + 1, totalSize: 0, maxSize: 1024, entries: {} };
+  fs.writeFileSync(path.join(cacheDir, "manifest.json"), JSON.stringify(newer));
+}
+
+/**
+ * Operations reported through error events while fn runs
+ */
+function reportedErrors(fn: () => void): string[] {
+  const operations: string[] = [];
+  const unsubscribe = onCacheEvent("error", (event) => operations.push(event.operation));
+  try {
+    fn();
+  } finally {
+    unsubscribe();
+  }
+  return operations;
+}
+
+runTests([
+  [
+    "an expired in-memory entry is a miss when it cannot be removed",
+    async (cacheDir) => {
+      const cache = new PluginCache({
+        namespace: "reads",
+        cacheDir,
+        memoryMaxEntries: 10,
+        defaultStaleWhileRevalidate: 0,
+      });
+      await cache.set("expired", 1, { ttl: -1000 });
+      lockOutManifestUpdates(cacheDir);
+
+      const errors = reportedErrors(() => {
+        assert.strictEqual(cache.get("expired").hit, false);
+      });
+      assert.deepStrictEqual(errors, ["read"]);
+    },
+  ],
+  [
+    "a rejected entry is a miss when it cannot be removed",
+    async (cacheDir) => {
+      const cache = new PluginCache({ namespace: "reads", cacheDir });
+      await cache.set("k", { id: 1 });
+      lockOutManifestUpdates(cacheDir);
+
+      const rejectAll = (_data: unknown): _data is never => false;
+      const errors = reportedErrors(() => {
+        assert.strictEqual(cache.get("k", { validate: rejectAll }).hit, false);
+      });
+      assert.deepStrictEqual(errors, ["invalidate"]);
+    },
+  ],
+]);
@@ -0,0 +1,55 @@
+/**
+ * Cleanup: LRU eviction follows reads recorded in the access journal
+ *
+ * Run with: npm test
+ */
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { PluginCache } from "../cache";
+import { performCleanup } from "../cleanup";
+import { CacheManifest } from "../types";
+import { runTests } from "./harness";
+
+const KEYS = ["k0", "k1", "k2", "k3", "k4", "k5", "k6", "k7", "k8", "k9"];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Lower the manifest's maxSize so a forced cleanup keeps only `keep` of the
+ * equally sized entries (cleanup frees down to 70% of maxSize)
+ */
+function shrinkTo(cacheDir: string, keep: number): void {
+  const manifestPath = path.join(cacheDir, "manifest.json");
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8")) as CacheManifest;
+  const entrySize = Object.values(manifest.entries)[0].size;
+  manifest.maxSize = Math.ceil(((keep + 0.5) * entrySize) / 0.7);
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+}
+
+runTests([
+  [
+    "LRU cleanup keeps entries read from memory and from disk",
+    async (cacheDir) => {
+      const cache = new PluginCache({ namespace: "lru", cacheDir, memoryMaxEntries: 10 });
+      for (const key of KEYS) {
+        await cache.set(key, { key, padding: "x".repeat(200) });
+      }
+      await sleep(10);
+
+      // The oldest writes are the newest reads: k0 from memory, k1 from disk
+      assert.strictEqual(cache.get("k0").hit, true);
+      assert.strictEqual(cache.getStats().l1Hits, 1);
+      const diskOnly = new PluginCache({ namespace: "lru", cacheDir });
+      assert.strictEqual(diskOnly.get("k1").hit, true);
+
+      shrinkTo(cacheDir, 2);
+      const result = performCleanup(cacheDir, undefined, { policy: "lru" });
+      assert.strictEqual(result.entriesRemoved, 8);
+      assert.deepStrictEqual(diskOnly.keys().sort(), ["k0", "k1"]);
+    },
+  ],
+]);
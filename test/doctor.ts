@@ -0,0 +1,121 @@
+/**
+ * Cache doctor: detecting and repairing drift between the manifest and storage
+ *
+ * Run with: npm test
+ */
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { PluginCache } from "../cache";
+import { verifyCache } from "../doctor";
+import { FileStore } from "../file-store";
+import { CacheManifest } from "../types";
+import { runTests } from "./harness";
+
+const LAST_READ = "2099-01-01T00:00:00.000Z";
+
+function readManifestFile(cacheDir: string): CacheManifest {
+  const content = fs.readFileSync(path.join(cacheDir, "manifest.json"), "utf-8");
+  return JSON.parse(content) as CacheManifest;
+}
+
+function writeManifestFile(cacheDir: string, manifest: CacheManifest): void {
+  fs.writeFileSync(path.join(cacheDir, "manifest.json"), JSON.stringify(manifest));
+}
+
+/**
+ * Fill a cache with entries "a" to "e", using a quota and a non-default
+ * eviction policy so the repair has settings to keep
+ */
+async function populate(cacheDir: string): Promise<FileStore> {
+  const cache = new PluginCache({
+    namespace: "doctor",
+    cacheDir,
+    maxSize: 1024 * 1024,
+    evictionPolicy: "lfu",
+  });
+  for (const key of ["a", "b", "c", "d", "e"]) {
+    await cache.set(key, { key, padding: "x".repeat(100) });
+  }
+  return new FileStore(cacheDir);
+}
+
+/**
+ * Orphan "a", delete "b", resize "c", corrupt "d", skew totalSize and leave
+ * a temp file behind
+ */
+function damage(cacheDir: string, store: FileStore): void {
+  const manifest = readManifestFile(cacheDir);
+  delete manifest.entries[store.locate("doctor", "a")];
+  manifest.totalSize += 7;
+  writeManifestFile(cacheDir, manifest);
+  fs.unlinkSync(store.locate("doctor", "b"));
+  fs.appendFileSync(store.locate("doctor", "c"), "\n");
+  fs.writeFileSync(store.locate("doctor", "d"), "{ not json");
+  fs.writeFileSync(path.join(cacheDir, "manifest.json.tmp.12345"), "{}");
+}
+
+runTests([
+  [
+    "a consistent cache has no issues",
+    async (cacheDir) => {
+      await populate(cacheDir);
+      const result = verifyCache(cacheDir);
+      assert.strictEqual(result.ok, true);
+      assert.deepStrictEqual(result.issues, []);
+      assert.strictEqual(result.entryCount, 5);
+    },
+  ],
+  [
+    "drift between the manifest and storage is reported without changes",
+    async (cacheDir) => {
+      damage(cacheDir, await populate(cacheDir));
+      const before = fs.readFileSync(path.join(cacheDir, "manifest.json"), "utf-8");
+
+      const result = verifyCache(cacheDir);
+      const found = result.issues.map((issue) => `${issue.type}:${issue.key ?? ""}`).sort();
+      assert.deepStrictEqual(found, [
+        "missing-file:b",
+        "orphan-file:a",
+        "size-mismatch:c",
+        "temp-file:",
+        "total-size-drift:",
+        "unparsable-entry:",
+      ]);
+      assert.strictEqual(result.ok, false);
+      assert.strictEqual(result.repaired, false);
+      assert.strictEqual(fs.readFileSync(path.join(cacheDir, "manifest.json"), "utf-8"), before);
+    },
+  ],
+  [
+    "repair rebuilds the manifest and keeps settings and read times",
+    async (cacheDir) => {
+      const store = await populate(cacheDir);
+      const manifest = readManifestFile(cacheDir);
+      manifest.entries[store.locate("doctor", "e")].lastAccessedAt = LAST_READ;
+      manifest.entries[store.locate("doctor", "e")].accessCount = 42;
+      writeManifestFile(cacheDir, manifest);
+      damage(cacheDir, store);
+
+      const result = verifyCache(cacheDir, { repair: true });
+      assert.strictEqual(result.repaired, true);
+      assert.strictEqual(result.entryCount, 3);
+      assert.ok(!fs.existsSync(store.locate("doctor", "d")));
+      assert.ok(!fs.existsSync(path.join(cacheDir, "manifest.json.tmp.12345")));
+
+      const repaired = readManifestFile(cacheDir);
+      assert.deepStrictEqual(repaired.quotas, { doctor: 1024 * 1024 });
+      assert.strictEqual(repaired.evictionPolicy, "lfu");
+      const kept = repaired.entries[store.locate("doctor", "e")];
+      assert.strictEqual(kept.lastAccessedAt, LAST_READ);
+      assert.strictEqual(kept.accessCount, 42);
+
+      const after = verifyCache(cacheDir);
+      assert.deepStrictEqual(after.issues, []);
+      assert.strictEqual(after.totalSize, store.list().reduce((sum, file) => sum + file.size, 0));
+      const cache = new PluginCache({ namespace: "doctor", cacheDir });
+      assert.deepStrictEqual(cache.keys().sort(), ["a", "c", "e"]);
+    },
+  ],
+]);
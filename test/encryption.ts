@@ -0,0 +1,98 @@
+/**
+ * Encryption at rest: tampered or wrong-key entries are misses, and key rotation
+ *
+ * Run with: npm test
+ */
+
+import * as assert from "assert";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { PluginCache } from "../cache";
+import { FileStore } from "../file-store";
+import { rotateEncryptionKey } from "../cleanup";
+import { parseEncryptionKey } from "../encryption";
+import { StoredCacheEntry } from "../codec";
+import { runTests } from "./harness";
+
+const NAMESPACE = "secrets";
+process.env.PLUGIN_CACHE_TEST_KEY_A = crypto.randomBytes(32).toString("hex");
+process.env.PLUGIN_CACHE_TEST_KEY_B = crypto.randomBytes(32).toString("hex");
+
+function openCache(cacheDir: string, keyEnv: string): PluginCache {
+  return new PluginCache({ namespace: NAMESPACE, cacheDir, encryption: { keyEnv } });
+}
+
+/**
+ * Rewrite a stored entry file
+ */
+function tamper(cacheDir: string, key: string, change: (stored: StoredCacheEntry) => void): void {
+  const location = new FileStore(cacheDir).locate(NAMESPACE, key);
+  const stored = JSON.parse(fs.readFileSync(location, "utf-8")) as StoredCacheEntry;
+  change(stored);
+  fs.writeFileSync(location, JSON.stringify(stored));
+}
+
+runTests([
+  [
+    "entries are stored encrypted and read back",
+    async (cacheDir) => {
+      const cache = openCache(cacheDir, "PLUGIN_CACHE_TEST_KEY_A");
+      await cache.set("token", { secret: "hunter2" });
+
+      const location = new FileStore(cacheDir).locate(NAMESPACE, "token");
+      assert.ok(!fs.readFileSync(location, "utf-8").includes("hunter2"));
+      assert.deepStrictEqual(cache.get("token").data, { secret: "hunter2" });
+    },
+  ],
+  [
+    "a tampered payload is a miss",
+    async (cacheDir) => {
+      const cache = openCache(cacheDir, "PLUGIN_CACHE_TEST_KEY_A");
+      await cache.set("token", { secret: "hunter2" });
+      tamper(cacheDir, "token", (stored) => {
+        const payload = Buffer.from(stored.payload!, "base64");
+        payload[0] ^= 1;
+        stored.payload = payload.toString("base64");
+      });
+
+      assert.strictEqual(openCache(cacheDir, "PLUGIN_CACHE_TEST_KEY_A").get("token").hit, false);
+    },
+  ],
+  [
+    "a truncated authentication tag is a miss",
+    async (cacheDir) => {
+      const cache = openCache(cacheDir, "PLUGIN_CACHE_TEST_KEY_A");
+      await cache.set("token", { secret: "hunter2" });
+      tamper(cacheDir, "token", (stored) => {
+        const tag = Buffer.from(stored.cipher!.tag, "base64");
+        stored.cipher!.tag = tag.subarray(0, 4).toString("base64");
+      });
+
+      assert.strictEqual(openCache(cacheDir, "PLUGIN_CACHE_TEST_KEY_A").get("token").hit, false);
+    },
+  ],
+  [
+    "an entry encrypted with another key is a miss",
+    async (cacheDir) => {
+      await openCache(cacheDir, "PLUGIN_CACHE_TEST_KEY_A").set("token", { secret: "hunter2" });
+      assert.strictEqual(openCache(cacheDir, "PLUGIN_CACHE_TEST_KEY_B").get("token").hit, false);
+    },
+  ],
+  [
+    "rotating the key re-encrypts entries for the new key",
+    async (cacheDir) => {
+      await openCache(cacheDir, "PLUGIN_CACHE_TEST_KEY_A").set("token", { secret: "hunter2" });
+      const result = rotateEncryptionKey(
+        cacheDir,
+        NAMESPACE,
+        parseEncryptionKey(process.env.PLUGIN_CACHE_TEST_KEY_A!),
+        parseEncryptionKey(process.env.PLUGIN_CACHE_TEST_KEY_B!)
+      );
+
+      assert.deepStrictEqual(result, { rotated: 1, skipped: 0, failed: 0 });
+      const rotated = openCache(cacheDir, "PLUGIN_CACHE_TEST_KEY_B").get("token");
+      assert.deepStrictEqual(rotated.data, { secret: "hunter2" });
+      assert.strictEqual(openCache(cacheDir, "PLUGIN_CACHE_TEST_KEY_A").get("token").hit, false);
+    },
+  ],
+]);
@@ -0,0 +1,44 @@
+/**
+ * Test Harness - Shared helpers for the test/*.ts scripts
+ * Each script runs its tests in order and exits non-zero on the first failure.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/** A named test; gets a fresh, empty cache directory */
+export type TestCase = [name: string, test: (cacheDir: string) => Promise<void> | void];
+
+/**
+ * Run tests in order, each in its own temp cache directory
+ */
+export function runTests(tests: TestCase[]): void {
+  (async () => {
+    for (const [name, test] of tests) {
+      const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "plugin-cache-test-"));
+      try {
+        await test(cacheDir);
+      } finally {
+        fs.rmSync(cacheDir, { recursive: true, force: true });
+      }
+      console.log(`ok - ${name}`);
+    }
+  })().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
+
+/**
+ * Run fn with console.warn silenced (for expected warnings)
+ */
+export function withoutWarnings<T>(fn: () => T): T {
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    return fn();
+  } finally {
+    console.warn = warn;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * cachedHttpFetch() against a local HTTP server
+ * Covers conditional revalidation (304), Cache-Control and Vary handling.
+ *
+ * Run with: npm test
+ */
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { PluginCache } from "../cache";
+import { HttpStatusError, cachedHttpFetch } from "../http";
+
+/** What the server does for a path */
+interface Route {
+  headers?: Record<string, string>;
+  /** Answer If-None-Match with 304 when the ETag matches */
+  etag?: string;
+  status?: number;
+  /** Answer every request after the first with 500 */
+  failAfterFirst?: boolean;
+  delayMs?: number;
+  body?: (request: http.IncomingMessage) => unknown;
+}
+
+/** Requests the server received, by path */
+const received = new Map<string, http.IncomingMessage[]>();
+
+const routes: Record<string, Route> = {
+  "/fresh": { headers: { "cache-control": "max-age=60" } },
+  "/etag": { etag: '"v1"', headers: { "cache-control": "no-cache" } },
+  "/no-store": { headers: { "cache-control": "no-store" } },
+  "/swr": { etag: '"v1"', headers: { "cache-control": "max-age=0, stale-while-revalidate=60" } },
+  "/swr-down": {
+    headers: { "cache-control": "max-age=0, stale-while-revalidate=60" },
+    failAfterFirst: true,
+  },
+  "/vary": {
+    headers: { "cache-control": "max-age=60", vary: "Accept-Language" },
+    body: (request) => ({ language: request.headers["accept-language"] }),
+  },
+  "/slow": { headers: { "cache-control": "max-age=60" }, delayMs: 50 },
+  "/error": { status: 500 },
+};
+
+function handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+  const route = routes[request.url ?? ""];
+  if (!route) {
+    response.writeHead(404).end();
+    return;
+  }
+  received.set(request.url!, [...(received.get(request.url!) ?? []), request]);
+
+  setTimeout(() => {
+    const headers = { ...route.headers, ...(route.etag && { etag: route.etag }) };
+    if (route.etag && request.headers["if-none-match"] === route.etag) {
+      response.writeHead(304, headers).end();
+      return;
+    }
+    const count = received.get(request.url!)!.length;
+    const body = route.body?.(request) ?? { path: request.url, count };
+    const status = route.failAfterFirst && count > 1 ? 500 : (route.status ?? 200);
+    response
+      .writeHead(status, { ...headers, "content-type": "application/json" })
+      .end(JSON.stringify(body));
+  }, route.delayMs ?? 0);
+}
+
+function requestCount(urlPath: string): number {
+  return received.get(urlPath)?.length ?? 0;
+}
+
+async function run(baseUrl: string, cache: PluginCache): Promise<void> {
+  const tests: [string, () => Promise<void>][] = [
+    [
+      "fresh responses are served without a request",
+      async () => {
+        const first = await cachedHttpFetch(cache, `${baseUrl}/fresh`);
+        const second = await cachedHttpFetch(cache, `${baseUrl}/fresh`);
+        assert.strictEqual(first.source, "network");
+        assert.strictEqual(second.source, "cache");
+        assert.deepStrictEqual(second.data, first.data);
+        assert.strictEqual(requestCount("/fresh"), 1);
+      },
+    ],
+    [
+      "no-cache responses are revalidated with If-None-Match",
+      async () => {
+        const first = await cachedHttpFetch(cache, `${baseUrl}/etag`);
+        const second = await cachedHttpFetch(cache, `${baseUrl}/etag`);
+        assert.strictEqual(second.source, "revalidated");
+        assert.deepStrictEqual(second.data, first.data);
+        assert.strictEqual(received.get("/etag")![1].headers["if-none-match"], '"v1"');
+      },
+    ],
+    [
+      "no-store responses are never cached",
+      async () => {
+        await cachedHttpFetch(cache, `${baseUrl}/no-store`);
+        const second = await cachedHttpFetch(cache, `${baseUrl}/no-store`);
+        assert.strictEqual(second.source, "network");
+        assert.strictEqual(requestCount("/no-store"), 2);
+      },
+    ],
+    [
+      "stale-while-revalidate serves stale data and revalidates in the background",
+      async () => {
+        await cachedHttpFetch(cache, `${baseUrl}/swr`);
+        const second = await cachedHttpFetch(cache, `${baseUrl}/swr`);
+        assert.strictEqual(second.source, "cache");
+        assert.strictEqual(second.stale, true);
+        await cache.flush();
+        assert.strictEqual(requestCount("/swr"), 2);
+      },
+    ],
+    [
+      "failed background revalidations are reported as error events",
+      async () => {
+        const url = `${baseUrl}/swr-down`;
+        const errors: unknown[] = [];
+        const off = cache.on("error", (event) => {
+          if (event.operation === "refresh") errors.push(event.error);
+        });
+        try {
+          await cachedHttpFetch(cache, url);
+          const second = await cachedHttpFetch(cache, url);
+          assert.strictEqual(second.stale, true);
+          await cache.flush();
+        } finally {
+          off();
+        }
+        assert.strictEqual(errors.length, 1);
+        assert.ok(errors[0] instanceof HttpStatusError);
+      },
+    ],
+    [
+      "Vary headers select separate entries",
+      async () => {
+        const english = { headers: { "accept-language": "en" } };
+        const german = { headers: { "accept-language": "de" } };
+        const en = await cachedHttpFetch(cache, `${baseUrl}/vary`, english);
+        const de = await cachedHttpFetch(cache, `${baseUrl}/vary`, german);
+        const enAgain = await cachedHttpFetch(cache, `${baseUrl}/vary`, english);
+        assert.deepStrictEqual(en.data, { language: "en" });
+        assert.deepStrictEqual(de.data, { language: "de" });
+        assert.strictEqual(enAgain.source, "cache");
+        assert.deepStrictEqual(enAgain.data, { language: "en" });
+        assert.strictEqual(requestCount("/vary"), 2);
+      },
+    ],
+    [
+      "in-flight requests are not shared with getOrFetch on the same key",
+      async () => {
+        const url = `${baseUrl}/slow`;
+        const request = cachedHttpFetch(cache, url, { cacheKey: "slow" });
+        const own = await cache.getOrFetch("slow", async () => "own data");
+        assert.strictEqual(own, "own data");
+        assert.strictEqual((await request).source, "network");
+      },
+    ],
+    [
+      "unsuccessful responses throw HttpStatusError",
+      async () => {
+        await assert.rejects(cachedHttpFetch(cache, `${baseUrl}/error`), HttpStatusError);
+      },
+    ],
+  ];
+
+  for (const [name, test] of tests) {
+    await test();
+    console.log(`ok - ${name}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "plugin-cache-http-"));
+  const server = http.createServer(handle);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    await run(`http://127.0.0.1:${port}`, new PluginCache({ namespace: "http-test", cacheDir }));
+  } finally {
+    server.close();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
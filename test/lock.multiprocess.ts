@@ -0,0 +1,93 @@
+/**
+ * Multi-process lock test
+ * Several processes write to one cache directory at the same time; the
+ * manifest must end up with every entry and a totalSize matching the files.
+ * A lock left behind under a live (reused) pid must not block writers forever.
+ *
+ * Run with: npm test
+ */
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { spawn } from "child_process";
+import { PluginCache } from "../cache";
+import { verifyCache } from "../doctor";
+import { FileStore } from "../file-store";
+
+const WRITERS = 4;
+const ENTRIES_PER_WRITER = 40;
+const NAMESPACE = "lock-test";
+
+/**
+ * Writer process: set its own keys, and overwrite a shared key each time
+ */
+async function writer(cacheDir: string, id: string): Promise<void> {
+  const cache = new PluginCache({ namespace: NAMESPACE, cacheDir });
+  for (let i = 0; i < ENTRIES_PER_WRITER; i++) {
+    await cache.set(`writer-${id}:${i}`, { id, i, padding: "x".repeat(i * 10) });
+    await cache.set("shared", { id, i });
+  }
+}
+
+function runWriter(cacheDir: string, id: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [__filename, "writer", cacheDir, String(id)], {
+      stdio: "inherit",
+    });
+    child.on("error", reject);
+    child.on("exit", (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`Writer ${id} exited with code ${code}`));
+    });
+  });
+}
+
+async function main(): Promise<void> {
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "plugin-cache-lock-"));
+  try {
+    const writers = Array.from({ length: WRITERS }, (_, id) => runWriter(cacheDir, id));
+    await Promise.all(writers);
+
+    const cache = new PluginCache({ namespace: NAMESPACE, cacheDir });
+    const keys = cache.keys();
+    assert.strictEqual(keys.length, WRITERS * ENTRIES_PER_WRITER + 1, "entries were lost");
+    for (let id = 0; id < WRITERS; id++) {
+      for (let i = 0; i < ENTRIES_PER_WRITER; i++) {
+        assert.ok(cache.get(`writer-${id}:${i}`).hit, `writer-${id}:${i} is missing`);
+      }
+    }
+
+    const result = verifyCache(cacheDir);
+    assert.deepStrictEqual(result.issues, [], "manifest does not match the files");
+    const fileSizes = new FileStore(cacheDir).list().reduce((sum, file) => sum + file.size, 0);
+    assert.strictEqual(result.totalSize, fileSizes, "totalSize does not match the files");
+
+    console.log(`ok: ${WRITERS} writers, ${keys.length} entries, ${result.totalSize} bytes`);
+
+    // Abandoned lock whose pid now belongs to a live process (here: the parent of this one)
+    const lockPath = path.join(cacheDir, "manifest.json.lock");
+    const abandoned = { pid: process.ppid, token: "abandoned", acquiredAt: "1970-01-01T00:00:00Z" };
+    fs.writeFileSync(lockPath, JSON.stringify(abandoned));
+    const heldSince = new Date(Date.now() - 10 * 60_000);
+    fs.utimesSync(lockPath, heldSince, heldSince);
+    await cache.set("after-abandoned-lock", true);
+    assert.ok(cache.get("after-abandoned-lock").hit, "write behind an abandoned lock was lost");
+    console.log("ok: lock held for over maxHold by a live pid is broken");
+  } finally {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  }
+}
+
+if (process.argv[2] === "writer") {
+  writer(process.argv[3], process.argv[4]).catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+} else {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * Metrics: saves append to the journal, compaction keeps counts and retention
+ *
+ * Run with: npm test
+ */
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { PluginCache } from "../cache";
+import { FileStore } from "../file-store";
+import { emptyCounters, readMetrics, recordMetrics } from "../metrics";
+import { NamespaceMetrics } from "../types";
+import { runTests } from "./harness";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Counters for the "orders" namespace and key prefix with the given hits
+ */
+function orderHits(count: number): Record<string, NamespaceMetrics> {
+  const counters = { ...emptyCounters(), hits: count };
+  return { orders: { ...counters, byPrefix: { orders: { ...counters } } } };
+}
+
+runTests([
+  [
+    "saving metrics appends to the journal instead of rewriting the metrics file",
+    async (cacheDir) => {
+      const metricsFile = path.join(cacheDir, "metrics.json");
+      const hour = new Date().toISOString().slice(0, 13);
+      const history = { version: 1, hours: { [hour]: orderHits(5) } };
+      fs.writeFileSync(metricsFile, JSON.stringify(history));
+      const before = fs.readFileSync(metricsFile, "utf-8");
+
+      const cache = new PluginCache({ namespace: "orders", cacheDir });
+      await cache.set("orders:1", 1);
+      cache.get("orders:1");
+      await cache.flush();
+
+      assert.strictEqual(fs.readFileSync(metricsFile, "utf-8"), before);
+      assert.ok(fs.statSync(path.join(cacheDir, "metrics.journal")).size > 0);
+      const metrics = readMetrics(new FileStore(cacheDir)).orders;
+      assert.strictEqual(metrics.hits, 6);
+      assert.strictEqual(metrics.byPrefix.orders.hits, 6);
+    },
+  ],
+  [
+    "compaction keeps every count and drops hours past retention",
+    (cacheDir) => {
+      const store = new FileStore(cacheDir);
+      recordMetrics(store, orderHits(1000), new Date(Date.now() - 31 * 24 * HOUR));
+      let saves = 0;
+      while (fs.existsSync(path.join(cacheDir, "metrics.journal"))) {
+        recordMetrics(store, orderHits(1), new Date(Date.now() - (saves % 48) * HOUR));
+        saves++;
+      }
+
+      assert.ok(fs.existsSync(path.join(cacheDir, "metrics.json")));
+      const stored = JSON.parse(fs.readFileSync(path.join(cacheDir, "metrics.json"), "utf-8"));
+      assert.strictEqual(Object.keys(stored.hours).length, 48);
+      assert.strictEqual(readMetrics(store).orders.hits, saves);
+
+      recordMetrics(store, orderHits(1));
+      assert.strictEqual(readMetrics(store).orders.hits, saves + 1);
+    },
+  ],
+]);
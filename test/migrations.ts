@@ -0,0 +1,129 @@
+/**
+ * Manifest migrations, corrupt-manifest rebuilds and version checks
+ *
+ * Run with: npm test
+ */
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { PluginCache } from "../cache";
+import { verifyCache } from "../doctor";
+import { MANIFEST_VERSION, ManifestVersionError } from "../manifest";
+import { MANIFEST_MIGRATIONS, migrateManifest } from "../migrations";
+import { FileStore } from "../file-store";
+import { CacheManifest } from "../types";
+import { runTests, withoutWarnings } from "./harness";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Write a cache as version 1 left it: pretty-printed files named after the
+ * sanitized key, with no key inside, and a manifest without a version
+ */
+function writeLegacyCache(cacheDir: string, entries: Record<string, unknown>): void {
+  const now = Date.now();
+  const manifestEntries: Record<string, unknown> = {};
+  let totalSize = 0;
+  fs.mkdirSync(path.join(cacheDir, "orders"));
+
+  for (const [key, data] of Object.entries(entries)) {
+    const fileName = `${key.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`;
+    const filePath = path.join(cacheDir, "orders", fileName);
+    const timestamps = {
+      createdAt: new Date(now).toISOString(),
+      lastAccessedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + HOUR).toISOString(),
+    };
+    const content = JSON.stringify({ data, ...timestamps }, null, 2);
+    const size = Buffer.byteLength(content, "utf-8");
+    fs.writeFileSync(filePath, content);
+    manifestEntries[filePath] = { filePath, namespace: "orders", key, size, ...timestamps };
+    totalSize += size;
+  }
+
+  fs.writeFileSync(
+    path.join(cacheDir, "manifest.json"),
+    JSON.stringify({ totalSize, maxSize: 1024 * 1024, entries: manifestEntries })
+  );
+}
+
+function readManifestFile(cacheDir: string): CacheManifest {
+  const content = fs.readFileSync(path.join(cacheDir, "manifest.json"), "utf-8");
+  return JSON.parse(content) as CacheManifest;
+}
+
+runTests([
+  [
+    "migrations form a chain from version 1 to MANIFEST_VERSION",
+    () => {
+      let version = 1;
+      for (const step of MANIFEST_MIGRATIONS) {
+        assert.strictEqual(step.from, version);
+        assert.strictEqual(step.to, version + 1);
+        version = step.to;
+      }
+      assert.strictEqual(version, MANIFEST_VERSION);
+    },
+  ],
+  [
+    "a version 1 cache is migrated without losing entries",
+    (cacheDir) => {
+      writeLegacyCache(cacheDir, { "orders?page=1": { page: 1 }, "orders/recent": [1, 2] });
+
+      const cache = new PluginCache({ namespace: "orders", cacheDir });
+      assert.deepStrictEqual(cache.get("orders?page=1").data, { page: 1 });
+      assert.deepStrictEqual(cache.get("orders/recent").data, [1, 2]);
+      assert.strictEqual(readManifestFile(cacheDir).version, MANIFEST_VERSION);
+
+      const result = verifyCache(cacheDir);
+      assert.deepStrictEqual(result.issues, []);
+      const fileSizes = new FileStore(cacheDir).list().reduce((sum, file) => sum + file.size, 0);
+      assert.strictEqual(result.totalSize, fileSizes);
+    },
+  ],
+  [
+    "a corrupt manifest is rebuilt from the entry files",
+    async (cacheDir) => {
+      const cache = new PluginCache({ namespace: "orders", cacheDir });
+      await cache.set("orders?page=1", { page: 1 }, { tags: ["orders"] });
+      await cache.set("orders?page=2", { page: 2 });
+      fs.writeFileSync(path.join(cacheDir, "manifest.json"), "{ not json");
+
+      const reopened = new PluginCache({ namespace: "orders", cacheDir });
+      assert.deepStrictEqual(reopened.keys().sort(), ["orders?page=1", "orders?page=2"]);
+      assert.deepStrictEqual(reopened.get("orders?page=1").data, { page: 1 });
+      assert.strictEqual(reopened.invalidateTag("orders"), 1);
+      assert.deepStrictEqual(verifyCache(cacheDir).issues, []);
+    },
+  ],
+  [
+    "a rebuild marks files without a stored key expired",
+    (cacheDir) => {
+      writeLegacyCache(cacheDir, { "orders?page=1": { page: 1 } });
+      fs.writeFileSync(path.join(cacheDir, "manifest.json"), "{ not json");
+
+      const cache = new PluginCache({ namespace: "orders", cacheDir });
+      const entries = Object.values(readManifestFile(cacheDir).entries);
+      assert.strictEqual(entries.length, 1);
+      assert.ok(new Date(entries[0].expiresAt).getTime() < Date.now());
+      assert.strictEqual(cache.get("orders?page=1").hit, false);
+    },
+  ],
+  [
+    "a manifest from a newer version is never downgraded",
+    (cacheDir) => {
+      const newer = { version: MANIFEST_VERSION + 1, totalSize: 0, maxSize: 1024, entries: {} };
+      const content = JSON.stringify(newer);
+      fs.writeFileSync(path.join(cacheDir, "manifest.json"), content);
+
+      const cache = withoutWarnings(() => new PluginCache({ namespace: "orders", cacheDir }));
+      assert.strictEqual(cache.isDisabled(), true);
+      assert.throws(
+        () => migrateManifest(JSON.parse(content), new FileStore(cacheDir)),
+        ManifestVersionError
+      );
+      assert.strictEqual(fs.readFileSync(path.join(cacheDir, "manifest.json"), "utf-8"), content);
+    },
+  ],
+]);
@@ -0,0 +1,110 @@
+/**
+ * Snapshots: export/import round trips, expired, negative and oversize entries
+ *
+ * Run with: npm test
+ */
+
+import * as assert from "assert";
+import * as crypto from "crypto";
+import * as path from "path";
+import { PluginCache } from "../cache";
+import { exportSnapshot, importSnapshot, readSnapshot } from "../snapshot";
+import { parseEncryptionKey } from "../encryption";
+import { runTests } from "./harness";
+
+process.env.PLUGIN_CACHE_TEST_KEY = crypto.randomBytes(32).toString("hex");
+
+/**
+ * Source and target stores plus the snapshot file, all inside the test directory
+ */
+function paths(cacheDir: string): { source: string; target: string; file: string } {
+  return {
+    source: path.join(cacheDir, "source"),
+    target: path.join(cacheDir, "target"),
+    file: path.join(cacheDir, "snapshot.ndjson"),
+  };
+}
+
+runTests([
+  [
+    "entries survive an export/import round trip",
+    async (cacheDir) => {
+      const { source, target, file } = paths(cacheDir);
+      const compression = "gzip";
+      const orders = new PluginCache({ namespace: "orders", cacheDir: source, compression });
+      await orders.set("orders?page=1", { page: 1 }, { tags: ["orders"], etag: '"v1"' });
+      await orders.set("orders?page=2", { page: 2 }, { tags: ["orders"] });
+      await new PluginCache({ namespace: "users", cacheDir: source }).set("me", { id: 7 });
+
+      const exported = exportSnapshot(source, file, { namespaces: ["orders"] });
+      assert.deepStrictEqual(exported, { exported: 2, skipped: 0, namespaces: ["orders"] });
+
+      const imported = await importSnapshot(target, file, { namespaceMap: { orders: "archive" } });
+      assert.deepStrictEqual(imported, {
+        imported: 2,
+        skipped: 0,
+        expired: 0,
+        byNamespace: { archive: 2 },
+      });
+      const archive = new PluginCache({ namespace: "archive", cacheDir: target });
+      assert.deepStrictEqual(archive.get("orders?page=1").data, { page: 1 });
+      assert.strictEqual(archive.get("orders?page=1").entry?.etag, '"v1"');
+      assert.strictEqual(archive.invalidateTag("orders"), 2);
+      assert.deepStrictEqual(new PluginCache({ namespace: "users", cacheDir: target }).keys(), []);
+    },
+  ],
+  [
+    "encrypted entries are exported only with the key",
+    async (cacheDir) => {
+      const { source, target, file } = paths(cacheDir);
+      const encryption = { keyEnv: "PLUGIN_CACHE_TEST_KEY" };
+      await new PluginCache({ namespace: "secrets", cacheDir: source, encryption }).set("t", "s3");
+
+      assert.deepStrictEqual(exportSnapshot(source, file).skipped, 1);
+      const encryptionKey = parseEncryptionKey(process.env.PLUGIN_CACHE_TEST_KEY!);
+      assert.deepStrictEqual(exportSnapshot(source, file, { encryptionKey }).exported, 1);
+
+      await importSnapshot(target, file, { config: { encryption } });
+      const secrets = new PluginCache({ namespace: "secrets", cacheDir: target, encryption });
+      assert.strictEqual(secrets.get("t").data, "s3");
+    },
+  ],
+  [
+    "negative entries are not exported and expired entries are not imported",
+    async (cacheDir) => {
+      const { source, target, file } = paths(cacheDir);
+      const cache = new PluginCache({ namespace: "orders", cacheDir: source });
+      await cache.set("fresh", 1);
+      await cache.set("expired", 2, { ttl: -1000 });
+      const failing = async (): Promise<number> => {
+        throw new Error("upstream down");
+      };
+      await assert.rejects(cache.getOrFetch("failed", failing, { negativeTtl: 60_000 }));
+
+      exportSnapshot(source, file);
+      const keys = readSnapshot(file).entries.map((entry) => entry.key).sort();
+      assert.deepStrictEqual(keys, ["expired", "fresh"]);
+
+      const imported = await importSnapshot(target, file);
+      assert.strictEqual(imported.imported, 1);
+      assert.strictEqual(imported.expired, 1);
+      const orders = new PluginCache({ namespace: "orders", cacheDir: target });
+      assert.deepStrictEqual(orders.keys(), ["fresh"]);
+    },
+  ],
+  [
+    "an oversize entry is skipped and leaves the existing entry in place",
+    async (cacheDir) => {
+      const { source, target, file } = paths(cacheDir);
+      await new PluginCache({ namespace: "orders", cacheDir: source }).set("big", "x".repeat(4096));
+      await new PluginCache({ namespace: "orders", cacheDir: target }).set("big", "small");
+
+      exportSnapshot(source, file);
+      const imported = await importSnapshot(target, file, { config: { maxEntrySize: 1024 } });
+      assert.strictEqual(imported.imported, 0);
+      assert.strictEqual(imported.skipped, 1);
+      const orders = new PluginCache({ namespace: "orders", cacheDir: target });
+      assert.strictEqual(orders.get("big").data, "small");
+    },
+  ],
+]);
@@ -3,6 +3,29 @@
  * Shared cache library for Claude Code plugins
  */
 
+/** Compression codec for stored entries */
+export type CompressionCodec = "gzip" | "brotli";
+
+/** Encryption metadata stored with an encrypted entry */
+export interface EntryCipher {
+  /** Cipher algorithm */
+  alg: "aes-256-gcm";
+  /** Fingerprint of the key used */
+  keyId: string;
+  /** Initialization vector (base64) */
+  iv: string;
+  /** GCM authentication tag (base64) */
+  tag: string;
+}
+
+/** Where to find a namespace's encryption key (32 bytes, hex or base64) */
+export interface EncryptionConfig {
+  /** Environment variable holding the key (checked first) */
+  keyEnv?: string;
+  /** File holding the key */
+  keyFile?: string;
+}
+
 /** Stored cache entry with metadata */
 export interface CacheEntry<T = unknown> {
   /** The cached data */
@@ -19,8 +42,27 @@ export interface CacheEntry<T = unknown> {
   lastModified?: string;
   /** Custom version for manual cache busting */
   version?: string;
-  /** Size in bytes */
+  /** Original cache key (filenames are hashed, so the key is kept here) */
+  key?: string;
+  /** Tags for group invalidation */
+  tags?: string[];
+  /** Compression applied to the stored data (absent = stored inline) */
+  codec?: CompressionCodec;
+  /** Encryption applied to the stored data */
+  cipher?: EntryCipher;
+  /** Size of the serialized data in bytes (before compression) */
   size: number;
+  /** Remembered fetch failure (negative cache entry; data is null) */
+  error?: CachedError;
+  /** How long the fetch that produced the data took, in ms (drives early refresh) */
+  fetchMs?: number;
+}
+
+/** Fetch failure stored by negative caching */
+export interface CachedError {
+  /** Error name (e.g. "Error", "FetchTimeoutError") */
+  name: string;
+  message: string;
 }
 
 /** Manifest entry for tracking across the global cache */
@@ -31,12 +73,24 @@ export interface ManifestEntry {
   namespace: string;
   /** Cache key within namespace */
   key: string;
-  /** Size in bytes */
+  /** Stored (on-disk) size in bytes */
   size: number;
+  /** Size of the serialized data before compression (defaults to size) */
+  logicalSize?: number;
   /** Last accessed timestamp (ISO) */
   lastAccessedAt: string;
   /** Expiration timestamp (ISO) */
   expiresAt: string;
+  /** Tags for group invalidation */
+  tags?: string[];
+  /** Creation timestamp (ISO string) */
+  createdAt?: string;
+  /** Number of reads (for LFU eviction) */
+  accessCount?: number;
+  /** How long the data took to fetch in ms (for cost-aware eviction) */
+  fetchMs?: number;
+  /** Remembered fetch failure (negative cache entry) rather than data */
+  negative?: boolean;
 }
 
 /** Global cache manifest */
@@ -49,10 +103,80 @@ export interface CacheManifest {
   maxSize: number;
   /** All cache entries indexed by file path */
   entries: Record<string, ManifestEntry>;
+  /** Per-namespace size quotas in bytes */
+  quotas?: Record<string, number>;
+  /** Eviction policy used by cleanup (default: "lru") */
+  evictionPolicy?: string;
   /** Last cleanup timestamp */
   lastCleanup?: string;
 }
 
+/** An entry as found in storage, independent of the manifest */
+export interface StoredEntry {
+  /** Plugin namespace */
+  namespace: string;
+  /** Storage location (the manifest key, e.g. a file path) */
+  location: string;
+  /** Stored size in bytes */
+  size: number;
+}
+
+/**
+ * Storage backend for entries and the manifest.
+ * Implementations move raw strings; serialization, accounting and
+ * expiration are handled by PluginCache and the cleanup functions.
+ */
+export interface CacheStore {
+  /** Human-readable location of the store (e.g. the cache directory) */
+  readonly location: string;
+  /** Storage location for a key (used as the manifest entry key) */
+  locate(namespace: string, key: string): string;
+  /** Read an entry, or null if it does not exist */
+  read(location: string): string | null;
+  /** Write (create or replace) an entry */
+  write(location: string, content: string): void;
+  /** Delete an entry, returning whether it existed */
+  delete(location: string): boolean;
+  /** Check whether an entry exists */
+  exists(location: string): boolean;
+  /** List stored entries, optionally for one namespace only */
+  list(namespace?: string): StoredEntry[];
+  /** List namespaces present in storage */
+  namespaces(): string[];
+  /** Remove a namespace and everything stored under it */
+  removeNamespace(namespace: string): void;
+  /** Check whether a manifest has been written */
+  hasManifest(): boolean;
+  /** Read the raw manifest, or null if none exists */
+  readManifest(): string | null;
+  /** Replace the raw manifest atomically */
+  writeManifest(content: string): void;
+  /** Read the raw usage metrics, or null if none have been saved */
+  readMetrics(): string | null;
+  /** Replace the raw usage metrics atomically (called while holding the lock) */
+  writeMetrics(content: string): void;
+  /** Append lines to the metrics journal (no lock needed) */
+  appendMetrics(lines: string): void;
+  /** Size of the metrics journal in bytes (0 if there is none) */
+  metricsJournalSize(): number;
+  /** Read the metrics journal without clearing it, or null if there is none */
+  readMetricsJournal(): string | null;
+  /** Remove and return the metrics journal (called while holding the lock) */
+  takeMetricsJournal(): string | null;
+  /** Append lines to the access journal (no lock needed) */
+  appendJournal(lines: string): void;
+  /** Size of the access journal in bytes (0 if there is none) */
+  journalSize(): number;
+  /** Read the access journal without clearing it, or null if there is none */
+  readJournal(): string | null;
+  /** Remove and return the access journal (called while holding the lock) */
+  takeJournal(): string | null;
+  /** Files left behind by interrupted atomic writes or compactions (removed with delete()) */
+  listTempFiles(): string[];
+  /** Run fn while holding the store's manifest lock (reentrant, synchronous fn only) */
+  lock<T>(fn: () => T): T;
+}
+
 /** Configuration for PluginCache instance */
 export interface CacheConfig {
   /** Plugin namespace (e.g., "shopify-order-manager") */
@@ -61,20 +185,61 @@ export interface CacheConfig {
   defaultTTL?: number;
   /** Default stale-while-revalidate period in ms (default: 24 hours) */
   defaultStaleWhileRevalidate?: number;
+  /** Default stale-if-error period in ms past expiry (default: 0, disabled) */
+  defaultStaleIfError?: number;
   /** Maximum size per entry in bytes (default: 10MB) */
   maxEntrySize?: number;
+  /**
+   * Version of the cached data's shape. Entries written with a different
+   * version are removed on read and count as misses (bump it when the shape changes)
+   */
+  schemaVersion?: string;
+  /** Size quota for this namespace in bytes, saved in the manifest (default: none) */
+  maxSize?: number;
+  /**
+   * Eviction policy for this cache directory, saved in the manifest:
+   * "lru" (default), "lfu", "expired-first", "cost-aware" or a registered custom policy
+   */
+  evictionPolicy?: string;
   /** Custom cache directory (default: ~/.cache/plugin-cache) */
   cacheDir?: string;
+  /** Storage backend (default: JSON files in cacheDir); takes precedence over cacheDir */
+  store?: CacheStore;
+  /** Compress large entries with this codec (default: no compression) */
+  compression?: CompressionCodec;
+  /** Compress entries whose serialized data exceeds this many bytes (default: 64KB) */
+  compressionThreshold?: number;
+  /** Encrypt entry data at rest with AES-256-GCM */
+  encryption?: EncryptionConfig;
   /** Whether cache is disabled (all ops become no-ops) */
   disabled?: boolean;
+  /** Max entries kept in the in-memory L1 tier (L1 is off unless this or memoryMaxBytes is set) */
+  memoryMaxEntries?: number;
+  /** Max bytes kept in the in-memory L1 tier */
+  memoryMaxBytes?: number;
+  /** Shorten each TTL by a random fraction up to this, e.g. 0.1 = up to 10% (default: 0) */
+  ttlJitter?: number;
+  /**
+   * Probabilistic early refresh (XFetch): fresh entries with a recorded fetch
+   * time are sometimes reported stale shortly before expiry, so getOrFetch
+   * refreshes them in the background. Higher values refresh earlier; 1 is
+   * typical (default: 0, off)
+   */
+  earlyRefreshBeta?: number;
+  /** Random source in [0, 1) for TTL jitter and early refresh (default: Math.random) */
+  random?: () => number;
 }
 
 /** Options for cache.get() */
-export interface GetOptions {
+export interface GetOptions<T = unknown> {
   /** TTL override for this entry */
   ttl?: number;
   /** Stale-while-revalidate period override */
   staleWhileRevalidate?: number;
+  /** Stale-if-error period override (expired entries are kept this long as a fallback) */
+  staleIfError?: number;
+  /** Guard for the cached data; entries that fail it are removed and count as misses */
+  validate?: (data: unknown) => data is T;
 }
 
 /** Options for cache.set() */
@@ -85,29 +250,58 @@ export interface SetOptions {
   etag?: string;
   /** Last-Modified value */
   lastModified?: string;
-  /** Custom version string */
+  /** Custom version string (default: the cache's schemaVersion) */
   version?: string;
+  /** Tags for group invalidation via invalidateTags() (e.g. "product:123") */
+  tags?: string[];
+  /** Time in ms it took to produce the data (used by cost-aware eviction) */
+  fetchMs?: number;
 }
 
 /** Options for cache.getOrFetch() */
-export interface GetOrFetchOptions extends SetOptions {
+export interface GetOrFetchOptions<T = unknown> extends SetOptions {
   /** Bypass cache and fetch fresh (still updates cache) */
   bypassCache?: boolean;
   /** Stale-while-revalidate period */
   staleWhileRevalidate?: number;
+  /** Serve an expired copy for this long past expiry when the fetcher fails */
+  staleIfError?: number;
+  /** Abort the fetcher after this many ms (its AbortSignal fires, FetchTimeoutError is thrown) */
+  timeout?: number;
+  /** Remember fetch failures for this many ms instead of calling the fetcher again */
+  negativeTtl?: number;
+  /** Which failures to remember with negativeTtl (default: all) */
+  cacheErrorIf?: (error: unknown) => boolean;
+  /** Guard for the cached data; entries that fail it are refetched */
+  validate?: (data: unknown) => data is T;
 }
 
+/** One entry for cache.setMany(); its options override the shared ones */
+export interface BatchEntry<T = unknown> extends SetOptions {
+  key: string;
+  data: T;
+}
+
+/** Fetches several keys in one call for getOrFetchMany() (keys left out are not cached) */
+export type BatchFetcher<T> = (
+  keys: string[],
+  signal: AbortSignal
+) => Promise<Map<string, T> | Record<string, T>>;
+
 /** Result from cache.get() */
 export interface CacheResult<T> {
   /** The cached data (null if not found) */
   data: T | null;
   /** Whether the entry was found */
   hit: boolean;
-  /** Whether the data is stale (past TTL but within SWR window) */
+  /** Whether the data is stale (past TTL but within SWR window, or due for early refresh) */
   stale: boolean;
   /** Whether revalidation is needed */
   needsRevalidation: boolean;
-  /** Cache entry metadata */
+  /**
+   * Cache entry metadata. Also set on misses for negative entries and for
+   * expired entries kept as a stale-if-error fallback.
+   */
   entry?: CacheEntry<T>;
 }
 
@@ -117,14 +311,26 @@ export interface CacheValidator {
   lastModified?: string;
 }
 
+/** Parsed Cache-Control directives (durations in seconds) */
+export interface CacheControl {
+  maxAge?: number;
+  staleWhileRevalidate?: number;
+  noStore: boolean;
+  noCache: boolean;
+}
+
 /** Cache statistics */
 export interface CacheStats {
   /** Plugin namespace */
   namespace: string;
   /** Number of entries */
   entryCount: number;
-  /** Total size in bytes */
+  /** Total stored (on-disk) size in bytes */
   totalSize: number;
+  /** Total size of the data before compression */
+  logicalSize?: number;
+  /** Size quota in bytes (if one is set) */
+  quota?: number;
   /** Oldest entry timestamp */
   oldestEntry?: string;
   /** Newest entry timestamp */
@@ -133,14 +339,54 @@ export interface CacheStats {
   expiredCount: number;
   /** Number of stale entries (past TTL but within SWR) */
   staleCount: number;
+  /** Hits served from the in-memory L1 tier (this process only) */
+  l1Hits?: number;
+  /** Hits served from disk (this process only) */
+  l2Hits?: number;
+  /** Entries currently held in the L1 tier */
+  memoryEntries?: number;
+  /** Bytes currently held in the L1 tier */
+  memorySize?: number;
+  /** Persisted usage metrics (all processes, all time) */
+  metrics?: NamespaceMetrics;
+}
+
+/** Usage counters for a namespace or key prefix */
+export interface MetricCounters {
+  /** Fresh hits */
+  hits: number;
+  /** Stale hits (served within the SWR window) */
+  staleHits: number;
+  /** Misses (not cached, expired or unreadable) */
+  misses: number;
+  /** getOrFetch calls with bypassCache */
+  bypasses: number;
+  /** Entries removed by size-based cleanup */
+  evictions: number;
+  /** Entries dropped on read for a schema version mismatch or failed validation */
+  rejections: number;
+  /** Revalidations answered with NotModified (TTL renewed, data kept) */
+  revalidations: number;
+  /** Number of timed fetcher calls that returned new data */
+  fetches: number;
+  /** Total fetcher time in ms */
+  fetchMs: number;
+}
+
+/** Usage counters for a namespace, broken down by key prefix */
+export interface NamespaceMetrics extends MetricCounters {
+  /** Counters per key prefix (text before the first ":", "?" or "/") */
+  byPrefix: Record<string, MetricCounters>;
 }
 
 /** Global cache statistics */
 export interface GlobalCacheStats {
   /** Total entries across all plugins */
   totalEntries: number;
-  /** Total size in bytes */
+  /** Total stored (on-disk) size in bytes */
   totalSize: number;
+  /** Total size of the data before compression */
+  logicalSize?: number;
   /** Maximum size in bytes */
   maxSize: number;
   /** Percentage used */
@@ -151,6 +397,12 @@ export interface GlobalCacheStats {
   lastCleanup?: string;
 }
 
+/** Options for performCleanup() */
+export interface CleanupOptions {
+  /** Eviction policy for this run (default: the manifest's policy, else "lru") */
+  policy?: string;
+}
+
 /** Cleanup result */
 export interface CleanupResult {
   /** Number of entries removed */
@@ -160,3 +412,68 @@ export interface CleanupResult {
   /** New total size */
   newTotalSize: number;
 }
+
+/** Which entries invalidateEntries() removes (all given criteria must match) */
+export interface InvalidationFilter {
+  /** Exact key */
+  key?: string;
+  /** Regular expression matched against keys */
+  pattern?: string | RegExp;
+  /** Entries carrying any of these tags */
+  tags?: string[];
+  /** Entries created more than this many ms ago */
+  olderThan?: number;
+  /** Entries created before this time */
+  createdBefore?: Date;
+}
+
+/** Invalidation result */
+export interface InvalidationResult extends CleanupResult {
+  /** Keys removed (or that would be removed, for a dry run) */
+  keys: string[];
+}
+
+/** Kind of inconsistency found by verifyCache() */
+export type CacheIssueType =
+  | "corrupt-manifest"
+  | "orphan-file"
+  | "missing-file"
+  | "size-mismatch"
+  | "total-size-drift"
+  | "unparsable-entry"
+  | "empty-namespace"
+  | "temp-file";
+
+/** One inconsistency between the manifest and storage */
+export interface CacheIssue {
+  type: CacheIssueType;
+  /** Affected file or namespace directory */
+  location?: string;
+  namespace?: string;
+  key?: string;
+  /** Human-readable explanation */
+  message: string;
+}
+
+/** Result of verifyCache() */
+export interface VerifyResult {
+  /** Whether no issues were found */
+  ok: boolean;
+  issues: CacheIssue[];
+  /** Whether the issues were repaired */
+  repaired: boolean;
+  /** Entries in the manifest afterwards */
+  entryCount: number;
+  /** Manifest total size afterwards */
+  totalSize: number;
+}
+
+/** Key rotation result */
+export interface KeyRotationResult {
+  /** Entries re-encrypted with the new key */
+  rotated: number;
+  /** Entries left untouched (plaintext, or encrypted with another key) */
+  skipped: number;
+  /** Entries that failed to decrypt with the old key */
+  failed: number;
+}
@@ -3,7 +3,13 @@
  * Support for HTTP conditional requests (If-None-Match, If-Modified-Since)
  */
 
-import { CacheValidator } from "./types";
+import { CacheControl, CacheValidator } from "./types";
+
+/** Returned by a getOrRevalidate() fetcher when the source reports no change */
+export const NotModified: unique symbol = Symbol("NotModified");
+
+/** What a getOrRevalidate() fetcher returns: NotModified, or new data with its validators */
+export type RevalidationResult<T> = typeof NotModified | ({ data: T } & CacheValidator);
 
 /**
  * Build headers for conditional HTTP requests
@@ -65,6 +71,36 @@ export function extractValidator(
   return validator;
 }
 
+/**
+ * Parse a Cache-Control header value
+ * Unknown directives are ignored; a malformed max-age is treated as absent
+ */
+export function parseCacheControl(header: string | null | undefined): CacheControl {
+  const control: CacheControl = { noStore: false, noCache: false };
+  if (!header) {
+    return control;
+  }
+
+  for (const directive of header.split(",")) {
+    const [rawName, rawValue] = directive.split("=");
+    const name = rawName.trim().toLowerCase();
+    const value = rawValue !== undefined ? Number(rawValue.trim().replace(/^"|"$/g, "")) : NaN;
+    const seconds = Number.isFinite(value) && value >= 0 ? value : undefined;
+
+    if (name === "no-store") {
+      control.noStore = true;
+    } else if (name === "no-cache") {
+      control.noCache = true;
+    } else if (name === "max-age" && seconds !== undefined) {
+      control.maxAge = seconds;
+    } else if (name === "stale-while-revalidate" && seconds !== undefined) {
+      control.staleWhileRevalidate = seconds;
+    }
+  }
+
+  return control;
+}
+
 /**
  * Check if response is a 304 Not Modified
  */